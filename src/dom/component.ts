@@ -1,51 +1,214 @@
 /**
  * Component System for AckerJS
- * Allows creating reusable custom elements with attribute-based props
+ * Allows creating reusable custom elements with attribute-based or typed props
  */
 
+import { kebabCase } from '../format/index.js';
+import { log } from '../logger.js';
+import { morph } from './morph.js';
+import { TemplateResult } from './template.js';
 
+export type RenderResult = string | HTMLElement | TemplateResult;
 
-export type RenderFunction = (props: Record<string, string>) => string | HTMLElement;
+export type RenderFunction<P = Record<string, string>> = (props: P) => RenderResult;
+
+/**
+ * How an attribute is converted to a prop value
+ * - `string` as is
+ * - `number` via Number(); invalid numbers fall back to the default
+ * - `boolean` true when the attribute is present and not "false"
+ * - `json` parsed JSON, for arrays and objects
+ */
+export type PropType = 'string' | 'number' | 'boolean' | 'json';
+
+/**
+ * Declaration of one typed prop
+ */
+export interface PropDefinition<T = any> {
+    type: PropType;
+    /** Value used when neither attribute nor property is set; use a function for arrays and objects */
+    default?: T | (() => T);
+    /** Log an error and skip rendering while the prop has no value */
+    required?: boolean;
+    /** Write property assignments back to the attribute */
+    reflect?: boolean;
+    /** Attribute name (default: the prop name in kebab-case) */
+    attribute?: string;
+}
+
+/**
+ * Props schema: a type name or a full definition per prop
+ */
+export type PropsSchema = Record<string, PropType | PropDefinition>;
+
+type BaseType<D> = D extends PropType ? D : D extends { type: infer P } ? P : never;
+
+type PropValue<D> = D extends { default: infer V }
+    ? V extends (...args: any[]) => infer R ? R : V
+    : BaseType<D> extends 'string' ? string
+    : BaseType<D> extends 'number' ? number
+    : BaseType<D> extends 'boolean' ? boolean
+    : any;
+
+type IsDefined<D> = BaseType<D> extends 'boolean'
+    ? true
+    : D extends { default: any } | { required: true } ? true : false;
+
+/**
+ * Props object a schema gives render; props without a default or `required` may be undefined
+ */
+export type InferProps<S extends PropsSchema> = {
+    [K in keyof S]: IsDefined<S[K]> extends true ? PropValue<S[K]> : PropValue<S[K]> | undefined;
+};
+
+interface ResolvedProp {
+    name: string;
+    attribute: string;
+    definition: PropDefinition;
+}
+
+function resolveSchema(schema: PropsSchema): ResolvedProp[] {
+    return Object.entries(schema).map(([name, entry]) => {
+        const definition: PropDefinition = typeof entry === 'string' ? { type: entry } : entry;
+        return { name, attribute: definition.attribute ?? kebabCase(name), definition };
+    });
+}
+
+function defaultValue(definition: PropDefinition): unknown {
+    if (typeof definition.default === 'function') {
+        return (definition.default as () => unknown)();
+    }
+    if (definition.default === undefined && definition.type === 'boolean') {
+        return false;
+    }
+    return definition.default;
+}
+
+function fromAttribute(tagName: string, prop: ResolvedProp, value: string | null): unknown {
+    const { definition } = prop;
+    if (value === null) {
+        return defaultValue(definition);
+    }
+
+    switch (definition.type) {
+        case 'boolean':
+            return value !== 'false';
+        case 'number': {
+            const number = value.trim() === '' ? NaN : Number(value);
+            if (Number.isNaN(number)) {
+                log.warn(`[AckerJS Component] Invalid number for ${prop.attribute} on <${tagName}>: ${value}`);
+                return defaultValue(definition);
+            }
+            return number;
+        }
+        case 'json':
+            try {
+                return JSON.parse(value);
+            } catch (error) {
+                log.error(`[AckerJS Component] Invalid JSON for ${prop.attribute} on <${tagName}>`, error);
+                return defaultValue(definition);
+            }
+        default:
+            return value;
+    }
+}
+
+function toAttribute(definition: PropDefinition, value: unknown): string | null {
+    if (value === null || value === undefined || (definition.type === 'boolean' && !value)) {
+        return null;
+    }
+    if (definition.type === 'boolean') {
+        return '';
+    }
+    return definition.type === 'json' ? JSON.stringify(value) : String(value);
+}
 
 /**
  * Define a new reusable component
  * @param tagName - The custom element tag name (must contain a hyphen)
- * @param render - Function that returns HTML string or HTMLElement based on props
- * @param observedAttributes - Array of attribute names to observe for changes
+ * @param render - Function that returns an html template, HTML string or HTMLElement based on props
+ * @param observedAttributes - Array of attribute names to observe for changes, or a props schema.
+ * Schema props are coerced from their attributes, exposed as element properties and passed to render typed.
  * @example
  * component('user-card', (props) => {
- *   return `<div class="card"><h3>${props.name}</h3></div>`;
+ *   return html`<div class="card"><h3>${props.name}</h3></div>`;
  * }, ['name']);
+ *
+ * component('star-rating', ({ value, max, readonly }) => html`
+ *   <span ?data-readonly=${readonly}>${'★'.repeat(value)}${'☆'.repeat(max - value)}</span>
+ * `, {
+ *   value: { type: 'number', default: 0, reflect: true },
+ *   max: { type: 'number', default: 5 },
+ *   readonly: 'boolean',
+ * });
+ * document.querySelector('star-rating').value = 4;
  */
 export function component(
     tagName: string,
     render: RenderFunction,
-    observedAttributes: string[] = []
+    observedAttributes?: string[]
+): void;
+export function component<S extends PropsSchema>(
+    tagName: string,
+    render: RenderFunction<InferProps<S>>,
+    props: S
+): void;
+export function component(
+    tagName: string,
+    render: RenderFunction<any>,
+    propsOrAttributes: string[] | PropsSchema = []
 ): void {
     if (!tagName.includes('-')) {
-        console.error(`[AckerJS Component] Invalid tag name: ${tagName}. Custom elements must contain a hyphen.`);
+        log.error(`[AckerJS Component] Invalid tag name: ${tagName}. Custom elements must contain a hyphen.`);
         return;
     }
 
     if (customElements.get(tagName)) {
-        console.warn(`[AckerJS Component] Component ${tagName} is already defined.`);
+        log.warn(`[AckerJS Component] Component ${tagName} is already defined.`);
         return;
     }
 
+    const schema = Array.isArray(propsOrAttributes) ? null : resolveSchema(propsOrAttributes);
+    const observedAttributes = schema ? schema.map(prop => prop.attribute) : (propsOrAttributes as string[]);
+
     class AckerComponent extends HTMLElement {
         static get observedAttributes() {
             return observedAttributes;
         }
 
+        // Current prop values, coerced once per attribute change or taken from property assignments
+        private propValues = new Map<string, unknown>();
+        private reflecting = false;
+
         constructor() {
             super();
+
+            // Properties set before the element was upgraded shadow the accessors, so move them behind them
+            const element = this as unknown as Record<string, unknown>;
+            schema?.forEach(({ name }) => {
+                if (Object.prototype.hasOwnProperty.call(element, name)) {
+                    const value = element[name];
+                    delete element[name];
+                    element[name] = value;
+                }
+            });
         }
 
         connectedCallback() {
             this.render();
         }
 
-        attributeChangedCallback(_name: string, oldValue: string, newValue: string) {
+        attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null) {
+            // Attribute writes made by reflection are already stored and rendered
+            if (this.reflecting) {
+                return;
+            }
+
+            const prop = schema?.find(candidate => candidate.attribute === name);
+            if (prop) {
+                this.propValues.set(prop.name, fromAttribute(tagName, prop, newValue));
+            }
+
             if (oldValue !== newValue) {
                 this.render();
             }
@@ -62,27 +225,86 @@ export function component(
             return props;
         }
 
+        /**
+         * Props as declared by the schema, coerced from attributes or taken from properties
+         */
+        getTypedProps(): Record<string, unknown> {
+            const props: Record<string, unknown> = {};
+            schema?.forEach(prop => {
+                props[prop.name] = this.getProp(prop);
+            });
+            return props;
+        }
+
+        getProp(prop: ResolvedProp): unknown {
+            if (!this.propValues.has(prop.name)) {
+                this.propValues.set(prop.name, defaultValue(prop.definition));
+            }
+            return this.propValues.get(prop.name);
+        }
+
+        setProp(prop: ResolvedProp, value: unknown) {
+            this.propValues.set(prop.name, value);
+
+            if (prop.definition.reflect) {
+                const attribute = toAttribute(prop.definition, value);
+                this.reflecting = true;
+                try {
+                    if (attribute === null) {
+                        this.removeAttribute(prop.attribute);
+                    } else {
+                        this.setAttribute(prop.attribute, attribute);
+                    }
+                } finally {
+                    this.reflecting = false;
+                }
+            }
+
+            if (this.isConnected) {
+                this.render();
+            }
+        }
+
         render() {
-            const props = this.getProps();
-            const content = render(props);
+            const props = schema ? this.getTypedProps() : this.getProps();
 
-            // Clear current content
-            while (this.firstChild) {
-                this.removeChild(this.firstChild);
+            const missing = schema?.find(prop => prop.definition.required && props[prop.name] === undefined);
+            if (missing) {
+                log.error(`[AckerJS Component] Missing required prop "${missing.name}" on <${tagName}>`);
+                return;
             }
 
-            // Render new content
-            if (typeof content === 'string') {
-                this.innerHTML = content;
+            const content = render(props);
+
+            // Patch the existing subtree so focus, input values and listeners survive re-renders
+            if (content instanceof TemplateResult) {
+                morph(this, content.toFragment());
+            } else if (typeof content === 'string') {
+                morph(this, content);
             } else if (content instanceof HTMLElement) {
-                this.appendChild(content);
+                // Listeners and properties set on a built element cannot be carried over, so it replaces the old one
+                this.replaceChildren(content);
             }
         }
     }
 
+    // Each schema prop is readable and writable as an element property
+    schema?.forEach(prop => {
+        Object.defineProperty(AckerComponent.prototype, prop.name, {
+            configurable: true,
+            enumerable: true,
+            get(this: AckerComponent) {
+                return this.getProp(prop);
+            },
+            set(this: AckerComponent, value: unknown) {
+                this.setProp(prop, value);
+            },
+        });
+    });
+
     try {
         customElements.define(tagName, AckerComponent);
     } catch (error) {
-        console.error(`[AckerJS Component] Failed to define component ${tagName}`, error);
+        log.error(`[AckerJS Component] Failed to define component ${tagName}`, error);
     }
 }
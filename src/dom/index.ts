@@ -3,7 +3,43 @@
  * Provides simple, type-safe functions for DOM manipulation
  */
 
-export { component } from './component.js';
+import { log } from '../logger.js';
+
+// Logging is configured library-wide; exported here for subpath-only imports
+export { configure, type LibraryConfig, type Logger, type LogLevel } from '../logger.js';
+
+export {
+  component,
+  type RenderFunction,
+  type RenderResult,
+  type PropType,
+  type PropDefinition,
+  type PropsSchema,
+  type InferProps,
+} from './component.js';
+export { morph, type MorphContent } from './morph.js';
+export {
+  html,
+  unsafeHTML,
+  TemplateResult,
+  UnsafeHTML,
+  type ElementBindings,
+} from './template.js';
+export {
+  Signal,
+  Computed,
+  signal,
+  computed,
+  effect,
+  batch,
+  untrack,
+  bindText,
+  bindAttribute,
+  bindClass,
+  bindStyle,
+  type ReadonlySignal,
+  type Reactive,
+} from './signals.js';
 
 /**
  * Select a single DOM element using a CSS selector
@@ -16,7 +52,7 @@ export function select(selector: string): HTMLElement | null {
   try {
     return document.querySelector<HTMLElement>(selector);
   } catch (error) {
-    console.error(`[AckerJS DOM] Invalid selector: ${selector}`, error);
+    log.error(`[AckerJS DOM] Invalid selector: ${selector}`, error);
     return null;
   }
 }
@@ -32,7 +68,7 @@ export function selectAll(selector: string): HTMLElement[] {
   try {
     return Array.from(document.querySelectorAll<HTMLElement>(selector));
   } catch (error) {
-    console.error(`[AckerJS DOM] Invalid selector: ${selector}`, error);
+    log.error(`[AckerJS DOM] Invalid selector: ${selector}`, error);
     return [];
   }
 }
@@ -68,7 +104,7 @@ export function create(tag: string, props?: Record<string, any>): HTMLElement {
 
     return element;
   } catch (error) {
-    console.error(`[AckerJS DOM] Error creating element: ${tag}`, error);
+    log.error(`[AckerJS DOM] Error creating element: ${tag}`, error);
     throw error;
   }
 }
@@ -82,14 +118,14 @@ export function create(tag: string, props?: Record<string, any>): HTMLElement {
  */
 export function append(parent: HTMLElement, child: HTMLElement): void {
   if (!parent || !child) {
-    console.error('[AckerJS DOM] Invalid parent or child element for append');
+    log.error('[AckerJS DOM] Invalid parent or child element for append');
     return;
   }
 
   try {
     parent.appendChild(child);
   } catch (error) {
-    console.error('[AckerJS DOM] Error appending child', error);
+    log.error('[AckerJS DOM] Error appending child', error);
   }
 }
 
@@ -101,14 +137,14 @@ export function append(parent: HTMLElement, child: HTMLElement): void {
  */
 export function remove(element: HTMLElement): void {
   if (!element) {
-    console.error('[AckerJS DOM] Invalid element for removal');
+    log.error('[AckerJS DOM] Invalid element for removal');
     return;
   }
 
   try {
     element.remove();
   } catch (error) {
-    console.error('[AckerJS DOM] Error removing element', error);
+    log.error('[AckerJS DOM] Error removing element', error);
   }
 }
 
@@ -121,14 +157,14 @@ export function remove(element: HTMLElement): void {
  */
 export function addClass(element: HTMLElement, ...classes: string[]): void {
   if (!element) {
-    console.error('[AckerJS DOM] Invalid element for addClass');
+    log.error('[AckerJS DOM] Invalid element for addClass');
     return;
   }
 
   try {
     element.classList.add(...classes);
   } catch (error) {
-    console.error('[AckerJS DOM] Error adding classes', error);
+    log.error('[AckerJS DOM] Error adding classes', error);
   }
 }
 
@@ -141,14 +177,14 @@ export function addClass(element: HTMLElement, ...classes: string[]): void {
  */
 export function removeClass(element: HTMLElement, ...classes: string[]): void {
   if (!element) {
-    console.error('[AckerJS DOM] Invalid element for removeClass');
+    log.error('[AckerJS DOM] Invalid element for removeClass');
     return;
   }
 
   try {
     element.classList.remove(...classes);
   } catch (error) {
-    console.error('[AckerJS DOM] Error removing classes', error);
+    log.error('[AckerJS DOM] Error removing classes', error);
   }
 }
 
@@ -162,14 +198,14 @@ export function removeClass(element: HTMLElement, ...classes: string[]): void {
  */
 export function toggleClass(element: HTMLElement, className: string): boolean {
   if (!element) {
-    console.error('[AckerJS DOM] Invalid element for toggleClass');
+    log.error('[AckerJS DOM] Invalid element for toggleClass');
     return false;
   }
 
   try {
     return element.classList.toggle(className);
   } catch (error) {
-    console.error('[AckerJS DOM] Error toggling class', error);
+    log.error('[AckerJS DOM] Error toggling class', error);
     return false;
   }
 }
@@ -184,7 +220,7 @@ export function toggleClass(element: HTMLElement, className: string): boolean {
  */
 export function hasClass(element: HTMLElement, className: string): boolean {
   if (!element) {
-    console.error('[AckerJS DOM] Invalid element for hasClass');
+    log.error('[AckerJS DOM] Invalid element for hasClass');
     return false;
   }
 
@@ -192,30 +228,204 @@ export function hasClass(element: HTMLElement, className: string): boolean {
 }
 
 /**
- * Add an event listener to an element
- * @param element - Target HTMLElement
+ * Function that removes what was added, such as an event listener
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Handler for delegated events; receives the element that matched the selector
+ */
+export type DelegatedHandler<E extends Event = Event> = (event: E, delegate: HTMLElement) => void;
+
+// Events that do not bubble are delegated in the capture phase
+const NON_BUBBLING_EVENTS = new Set(['focus', 'blur', 'mouseenter', 'mouseleave', 'load', 'error', 'scroll']);
+
+/**
+ * Add an event listener to an element, or delegate events from matching descendants
+ * @param element - Target element; with a selector, the root that receives delegated events
  * @param event - Event name (without 'on' prefix)
+ * @param selector - Optional CSS selector; the handler runs for events from matching descendants,
+ * including ones added later
  * @param handler - Event handler function
  * @param options - Optional event listener options
+ * @returns Function that removes the listener
  * @example
- * on(button, 'click', (e) => console.log('Clicked!'));
+ * const stop = on(button, 'click', (e) => console.log('Clicked!'));
+ * on(table, 'click', '.row button', (e, button) => remove(button.closest('.row')!));
+ * stop();
  */
+export function on<K extends keyof HTMLElementEventMap>(
+  element: EventTarget,
+  event: K,
+  handler: (event: HTMLElementEventMap[K]) => void,
+  options?: boolean | AddEventListenerOptions
+): Unsubscribe;
+export function on<K extends keyof HTMLElementEventMap>(
+  element: HTMLElement | Document,
+  event: K,
+  selector: string,
+  handler: DelegatedHandler<HTMLElementEventMap[K]>,
+  options?: boolean | AddEventListenerOptions
+): Unsubscribe;
 export function on(
-  element: HTMLElement,
+  element: EventTarget,
   event: string,
   handler: EventListener,
   options?: boolean | AddEventListenerOptions
-): void {
-  if (!element || !handler) {
-    console.error('[AckerJS DOM] Invalid element or handler for event listener');
-    return;
+): Unsubscribe;
+export function on(
+  element: HTMLElement | Document,
+  event: string,
+  selector: string,
+  handler: DelegatedHandler,
+  options?: boolean | AddEventListenerOptions
+): Unsubscribe;
+export function on(
+  element: EventTarget,
+  event: string,
+  selectorOrHandler: string | ((event: any) => void),
+  handlerOrOptions?: DelegatedHandler | boolean | AddEventListenerOptions,
+  delegateOptions?: boolean | AddEventListenerOptions
+): Unsubscribe {
+  const delegated = typeof selectorOrHandler === 'string';
+  const handler = (delegated ? handlerOrOptions : selectorOrHandler) as ((event: Event, delegate?: HTMLElement) => void) | undefined;
+  let options = (delegated ? delegateOptions : handlerOrOptions) as boolean | AddEventListenerOptions | undefined;
+
+  if (!element || typeof handler !== 'function') {
+    log.error('[AckerJS DOM] Invalid element or handler for event listener');
+    return () => {};
+  }
+
+  let listener: EventListener = handler;
+  if (delegated) {
+    const selector = selectorOrHandler;
+    const root = element as HTMLElement | Document;
+    listener = (e: Event) => {
+      const target = e.target instanceof Element ? e.target : null;
+      let match: Element | null = null;
+      try {
+        match = target && target.closest(selector);
+      } catch (error) {
+        log.error(`[AckerJS DOM] Invalid selector: ${selector}`, error);
+      }
+      if (match instanceof HTMLElement && match !== root && root.contains(match)) {
+        handler(e, match);
+      }
+    };
+    if (NON_BUBBLING_EVENTS.has(event)) {
+      options = typeof options === 'object' ? { ...options, capture: true } : true;
+    }
   }
 
   try {
-    element.addEventListener(event, handler, options);
+    element.addEventListener(event, listener, options);
   } catch (error) {
-    console.error(`[AckerJS DOM] Error adding event listener: ${event}`, error);
+    log.error(`[AckerJS DOM] Error adding event listener: ${event}`, error);
+    return () => {};
   }
+
+  return () => element.removeEventListener(event, listener, options);
+}
+
+/**
+ * Add an event listener, or a delegated listener, that runs at most once
+ * @param element - Target element; with a selector, the root that receives delegated events
+ * @param event - Event name (without 'on' prefix)
+ * @param selector - Optional CSS selector; only a matching event counts
+ * @param handler - Event handler function
+ * @returns Function that removes the listener if it has not run yet
+ * @example
+ * once(dialog, 'transitionend', () => remove(dialog));
+ * once(list, 'click', 'li', (e, item) => select(item));
+ */
+export function once<K extends keyof HTMLElementEventMap>(
+  element: EventTarget,
+  event: K,
+  handler: (event: HTMLElementEventMap[K]) => void
+): Unsubscribe;
+export function once<K extends keyof HTMLElementEventMap>(
+  element: HTMLElement | Document,
+  event: K,
+  selector: string,
+  handler: DelegatedHandler<HTMLElementEventMap[K]>
+): Unsubscribe;
+export function once(element: EventTarget, event: string, handler: EventListener): Unsubscribe;
+export function once(
+  element: HTMLElement | Document,
+  event: string,
+  selector: string,
+  handler: DelegatedHandler
+): Unsubscribe;
+export function once(
+  element: EventTarget,
+  event: string,
+  selectorOrHandler: string | ((event: any) => void),
+  delegatedHandler?: DelegatedHandler
+): Unsubscribe {
+  if (typeof selectorOrHandler === 'string') {
+    const stop: Unsubscribe = on(element as HTMLElement | Document, event, selectorOrHandler, (e, delegate) => {
+      stop();
+      delegatedHandler?.(e, delegate);
+    });
+    return stop;
+  }
+  return on(element, event, selectorOrHandler, { once: true });
+}
+
+/**
+ * Collects cleanup functions so they can all run at once
+ * @example
+ * const listeners = createDisposer();
+ * listeners.add(on(window, 'resize', layout), on(form, 'submit', save));
+ * // later, e.g. in disconnectedCallback
+ * listeners.dispose();
+ */
+export class Disposer {
+  private cleanups = new Set<Unsubscribe>();
+
+  /** Number of pending cleanup functions */
+  get size(): number {
+    return this.cleanups.size;
+  }
+
+  /**
+   * Add cleanup functions, such as the unsubscribe functions returned by `on`
+   * @param cleanups - Functions to run on dispose
+   * @returns Function that runs and removes the added cleanups early
+   */
+  add(...cleanups: Unsubscribe[]): Unsubscribe {
+    cleanups.forEach(cleanup => this.cleanups.add(cleanup));
+    return () => {
+      cleanups.forEach(cleanup => {
+        if (this.cleanups.delete(cleanup)) {
+          cleanup();
+        }
+      });
+    };
+  }
+
+  /**
+   * Run every cleanup function and forget them
+   */
+  dispose(): void {
+    const cleanups = Array.from(this.cleanups);
+    this.cleanups.clear();
+    cleanups.forEach(cleanup => {
+      try {
+        cleanup();
+      } catch (error) {
+        log.error('[AckerJS DOM] Error running cleanup', error);
+      }
+    });
+  }
+}
+
+/**
+ * Create a Disposer grouping cleanup functions
+ * @returns Empty Disposer
+ */
+export function createDisposer(): Disposer {
+  return new Disposer();
 }
 
 /**
@@ -234,14 +444,14 @@ export function off(
   options?: boolean | EventListenerOptions
 ): void {
   if (!element || !handler) {
-    console.error('[AckerJS DOM] Invalid element or handler for removing event listener');
+    log.error('[AckerJS DOM] Invalid element or handler for removing event listener');
     return;
   }
 
   try {
     element.removeEventListener(event, handler, options);
   } catch (error) {
-    console.error(`[AckerJS DOM] Error removing event listener: ${event}`, error);
+    log.error(`[AckerJS DOM] Error removing event listener: ${event}`, error);
   }
 }
 
@@ -254,7 +464,7 @@ export function off(
  */
 export function setAttributes(element: HTMLElement, attributes: Record<string, string>): void {
   if (!element) {
-    console.error('[AckerJS DOM] Invalid element for setAttributes');
+    log.error('[AckerJS DOM] Invalid element for setAttributes');
     return;
   }
 
@@ -263,7 +473,7 @@ export function setAttributes(element: HTMLElement, attributes: Record<string, s
       element.setAttribute(key, value);
     });
   } catch (error) {
-    console.error('[AckerJS DOM] Error setting attributes', error);
+    log.error('[AckerJS DOM] Error setting attributes', error);
   }
 }
 
@@ -277,7 +487,7 @@ export function setAttributes(element: HTMLElement, attributes: Record<string, s
  */
 export function getAttribute(element: HTMLElement, attribute: string): string | null {
   if (!element) {
-    console.error('[AckerJS DOM] Invalid element for getAttribute');
+    log.error('[AckerJS DOM] Invalid element for getAttribute');
     return null;
   }
 
@@ -293,14 +503,14 @@ export function getAttribute(element: HTMLElement, attribute: string): string |
  */
 export function removeAttribute(element: HTMLElement, attribute: string): void {
   if (!element) {
-    console.error('[AckerJS DOM] Invalid element for removeAttribute');
+    log.error('[AckerJS DOM] Invalid element for removeAttribute');
     return;
   }
 
   try {
     element.removeAttribute(attribute);
   } catch (error) {
-    console.error('[AckerJS DOM] Error removing attribute', error);
+    log.error('[AckerJS DOM] Error removing attribute', error);
   }
 }
 
@@ -313,14 +523,14 @@ export function removeAttribute(element: HTMLElement, attribute: string): void {
  */
 export function setStyles(element: HTMLElement, styles: Partial<CSSStyleDeclaration>): void {
   if (!element) {
-    console.error('[AckerJS DOM] Invalid element for setStyles');
+    log.error('[AckerJS DOM] Invalid element for setStyles');
     return;
   }
 
   try {
     Object.assign(element.style, styles);
   } catch (error) {
-    console.error('[AckerJS DOM] Error setting styles', error);
+    log.error('[AckerJS DOM] Error setting styles', error);
   }
 }
 
@@ -348,7 +558,7 @@ export function getStyles(element: HTMLElement): CSSStyleDeclaration {
  */
 export function empty(element: HTMLElement): void {
   if (!element) {
-    console.error('[AckerJS DOM] Invalid element for empty');
+    log.error('[AckerJS DOM] Invalid element for empty');
     return;
   }
 
@@ -357,7 +567,7 @@ export function empty(element: HTMLElement): void {
       element.removeChild(element.firstChild);
     }
   } catch (error) {
-    console.error('[AckerJS DOM] Error emptying element', error);
+    log.error('[AckerJS DOM] Error emptying element', error);
   }
 }
 
@@ -387,14 +597,14 @@ export function clone(element: HTMLElement, deep: boolean = true): HTMLElement {
  */
 export function matches(element: HTMLElement, selector: string): boolean {
   if (!element) {
-    console.error('[AckerJS DOM] Invalid element for matches');
+    log.error('[AckerJS DOM] Invalid element for matches');
     return false;
   }
 
   try {
     return element.matches(selector);
   } catch (error) {
-    console.error(`[AckerJS DOM] Invalid selector: ${selector}`, error);
+    log.error(`[AckerJS DOM] Invalid selector: ${selector}`, error);
     return false;
   }
 }
@@ -409,14 +619,14 @@ export function matches(element: HTMLElement, selector: string): boolean {
  */
 export function closest(element: HTMLElement, selector: string): HTMLElement | null {
   if (!element) {
-    console.error('[AckerJS DOM] Invalid element for closest');
+    log.error('[AckerJS DOM] Invalid element for closest');
     return null;
   }
 
   try {
     return element.closest<HTMLElement>(selector);
   } catch (error) {
-    console.error(`[AckerJS DOM] Invalid selector: ${selector}`, error);
+    log.error(`[AckerJS DOM] Invalid selector: ${selector}`, error);
     return null;
   }
 }
@@ -0,0 +1,176 @@
+/**
+ * DOM morphing for AckerJS
+ * Patches an existing subtree to match new content, keeping focus, input state and listeners
+ */
+
+import { log } from '../logger.js';
+import { applyBindings, getBindings } from './template.js';
+
+/**
+ * Content morph can apply: an HTML string, a node or fragment, or a list of nodes
+ */
+export type MorphContent = string | Node | Node[] | NodeList;
+
+const KEY_ATTRIBUTE = 'data-key';
+
+function toNodes(content: MorphContent): Node[] {
+  if (typeof content === 'string') {
+    const template = document.createElement('template');
+    template.innerHTML = content;
+    return Array.from(template.content.childNodes);
+  }
+  if (content instanceof DocumentFragment) {
+    return Array.from(content.childNodes);
+  }
+  if (content instanceof Node) {
+    return [content];
+  }
+  return Array.from(content);
+}
+
+function keyOf(node: Node | null): string | null {
+  return node instanceof Element ? node.getAttribute(KEY_ATTRIBUTE) : null;
+}
+
+function isSameKind(current: Node, next: Node): boolean {
+  if (current.nodeType !== next.nodeType) {
+    return false;
+  }
+  return !(current instanceof Element) || current.tagName === (next as Element).tagName;
+}
+
+function syncAttributes(current: Element, next: Element): void {
+  Array.from(current.attributes).forEach(({ name }) => {
+    if (!next.hasAttribute(name)) {
+      current.removeAttribute(name);
+    }
+  });
+  Array.from(next.attributes).forEach(({ name, value }) => {
+    if (current.getAttribute(name) !== value) {
+      current.setAttribute(name, value);
+    }
+  });
+}
+
+/**
+ * Update live form state only where the rendered markup changed, so user input survives re-renders
+ */
+function syncFormState(current: Element, next: Element, previousValue: string | null, previousChecked: boolean): void {
+  if (current instanceof HTMLInputElement) {
+    const value = next.getAttribute('value');
+    if (value !== previousValue) {
+      current.value = value ?? '';
+    }
+    const checked = next.hasAttribute('checked');
+    if (checked !== previousChecked) {
+      current.checked = checked;
+    }
+  } else if (current instanceof HTMLTextAreaElement) {
+    const text = next.textContent ?? '';
+    if (current.defaultValue !== text) {
+      current.defaultValue = text;
+      current.value = text;
+    }
+  }
+}
+
+function morphNode(current: Node, next: Node): void {
+  if (!(current instanceof Element)) {
+    if (current.nodeValue !== next.nodeValue) {
+      current.nodeValue = next.nodeValue;
+    }
+    return;
+  }
+
+  const nextElement = next as Element;
+  const previousValue = current.getAttribute('value');
+  const previousChecked = current.hasAttribute('checked');
+  syncAttributes(current, nextElement);
+  syncFormState(current, nextElement, previousValue, previousChecked);
+
+  // Kept nodes take over the handlers and properties of the new render
+  const bindings = getBindings(nextElement);
+  if (bindings || getBindings(current)) {
+    applyBindings(current, bindings ?? { properties: {}, events: {} });
+  }
+
+  // Textareas hold their value as text, and defined custom elements render their own children
+  if (current instanceof HTMLTextAreaElement || customElements.get(current.localName)) {
+    return;
+  }
+  morphChildren(current, Array.from(nextElement.childNodes));
+}
+
+function morphChildren(parent: Node, nextNodes: Node[]): void {
+  const keyed = new Map<string, Element>();
+  Array.from(parent.childNodes).forEach(child => {
+    const key = keyOf(child);
+    if (key !== null) {
+      keyed.set(key, child as Element);
+    }
+  });
+
+  let cursor: ChildNode | null = parent.firstChild;
+
+  nextNodes.forEach(next => {
+    const key = keyOf(next);
+
+    if (key !== null) {
+      const match = keyed.get(key);
+      keyed.delete(key);
+      if (match && isSameKind(match, next)) {
+        if (match === cursor) {
+          cursor = cursor.nextSibling;
+        } else {
+          parent.insertBefore(match, cursor);
+        }
+        morphNode(match, next);
+      } else {
+        parent.insertBefore(next, cursor);
+      }
+      return;
+    }
+
+    if (cursor && keyOf(cursor) === null && isSameKind(cursor, next)) {
+      morphNode(cursor, next);
+      cursor = cursor.nextSibling;
+    } else if (cursor && keyOf(cursor) === null) {
+      const replaced: ChildNode = cursor;
+      cursor = cursor.nextSibling;
+      parent.replaceChild(next, replaced);
+    } else {
+      parent.insertBefore(next, cursor);
+    }
+  });
+
+  // Whatever was not matched is no longer rendered
+  while (cursor) {
+    const stale: ChildNode = cursor;
+    cursor = cursor.nextSibling;
+    parent.removeChild(stale);
+  }
+}
+
+/**
+ * Patch an element's children to match new content instead of replacing them.
+ * Unchanged nodes are kept, so focus, scroll position, typed input and listeners survive;
+ * children with a `data-key` attribute are matched by key, so reordered lists move existing nodes.
+ * Only attributes, text and `html` template bindings carry over to kept nodes: listeners and
+ * properties set directly on new nodes (e.g. by `create()`) are dropped with them.
+ * @param element - Element whose children are patched
+ * @param newContent - HTML string, node, fragment or node list to match
+ * @example
+ * morph(list, items.map(item => `<li data-key="${item.id}">${escapeHTML(item.name)}</li>`).join(''));
+ */
+export function morph(element: Element, newContent: MorphContent): void {
+  if (!element) {
+    log.error('[AckerJS DOM] Invalid element for morph');
+    return;
+  }
+
+  try {
+    morphChildren(element, toNodes(newContent));
+  } catch (error) {
+    log.error('[AckerJS DOM] Error morphing element', error);
+  }
+}
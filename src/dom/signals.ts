@@ -0,0 +1,478 @@
+/**
+ * Reactive state for AckerJS
+ * Signals, computed values and effects, with DOM bindings that follow them
+ */
+
+import { log } from '../logger.js';
+import { addClass, createDisposer, removeClass, setStyles, type Disposer, type Unsubscribe } from './index.js';
+
+/**
+ * Something that is re-run when the signals it read change
+ */
+interface Observer {
+  sources: Set<Source>;
+  notify(): void;
+}
+
+/**
+ * Something that observers can depend on
+ */
+interface Source {
+  observers: Set<Observer>;
+}
+
+let currentObserver: Observer | null = null;
+let batchDepth = 0;
+let flushing = false;
+const pendingEffects = new Set<EffectRunner>();
+
+// Guards against effects that keep invalidating themselves
+const MAX_FLUSH_ROUNDS = 100;
+
+function track(source: Source): void {
+  if (currentObserver) {
+    source.observers.add(currentObserver);
+    currentObserver.sources.add(source);
+  }
+}
+
+function notifyObservers(source: Source): void {
+  Array.from(source.observers).forEach(observer => observer.notify());
+  if (batchDepth === 0) {
+    flush();
+  }
+}
+
+function unsubscribeAll(observer: Observer): void {
+  observer.sources.forEach(source => source.observers.delete(observer));
+  observer.sources.clear();
+}
+
+function runTracked<T>(observer: Observer, fn: () => T): T {
+  unsubscribeAll(observer);
+  const previous = currentObserver;
+  currentObserver = observer;
+  try {
+    return fn();
+  } finally {
+    currentObserver = previous;
+  }
+}
+
+function flush(): void {
+  // Writes made by running effects are picked up by the outer loop
+  if (flushing) {
+    return;
+  }
+  flushing = true;
+  try {
+    for (let round = 0; pendingEffects.size > 0; round++) {
+      if (round >= MAX_FLUSH_ROUNDS) {
+        log.error('[AckerJS Signals] Effects did not settle; an effect probably writes a signal it reads');
+        pendingEffects.clear();
+        return;
+      }
+      const effects = Array.from(pendingEffects);
+      pendingEffects.clear();
+      effects.forEach(effect => effect.run());
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+/**
+ * Readable reactive value
+ */
+export interface ReadonlySignal<T> {
+  /** Current value; reading it inside an effect or computed subscribes to changes */
+  readonly value: T;
+  /** Current value, without subscribing */
+  peek(): T;
+  /**
+   * Call a function with the current value and after every change
+   * @returns Function that stops the subscription
+   */
+  subscribe(listener: (value: T) => void): Unsubscribe;
+}
+
+function subscribe<T>(source: ReadonlySignal<T>, listener: (value: T) => void): Unsubscribe {
+  return effect(() => {
+    const value = source.value;
+    untrack(() => listener(value));
+  });
+}
+
+/**
+ * Writable reactive value
+ * @example
+ * const count = signal(0);
+ * count.value++;
+ * count.set(n => n + 1);
+ */
+export class Signal<T> implements ReadonlySignal<T>, Source {
+  observers = new Set<Observer>();
+
+  constructor(private current: T, private equals: (a: T, b: T) => boolean = Object.is) {}
+
+  get value(): T {
+    track(this);
+    return this.current;
+  }
+
+  set value(next: T) {
+    if (this.equals(this.current, next)) {
+      return;
+    }
+    this.current = next;
+    notifyObservers(this);
+  }
+
+  /**
+   * Replace the value, or derive it from the previous one
+   * @param next - New value or updater function
+   */
+  set(next: T | ((previous: T) => T)): void {
+    this.value = typeof next === 'function' ? (next as (previous: T) => T)(this.current) : next;
+  }
+
+  peek(): T {
+    return this.current;
+  }
+
+  subscribe(listener: (value: T) => void): Unsubscribe {
+    return subscribe(this, listener);
+  }
+}
+
+/**
+ * Value derived from other signals, recomputed lazily when they change
+ */
+export class Computed<T> implements ReadonlySignal<T>, Source, Observer {
+  observers = new Set<Observer>();
+  sources = new Set<Source>();
+
+  private current!: T;
+  private dirty = true;
+
+  constructor(private compute: () => T) {}
+
+  get value(): T {
+    track(this);
+    return this.peek();
+  }
+
+  peek(): T {
+    if (this.dirty) {
+      this.current = runTracked(this, this.compute);
+      this.dirty = false;
+    }
+    return this.current;
+  }
+
+  notify(): void {
+    if (!this.dirty) {
+      this.dirty = true;
+      Array.from(this.observers).forEach(observer => observer.notify());
+    }
+  }
+
+  subscribe(listener: (value: T) => void): Unsubscribe {
+    return subscribe(this, listener);
+  }
+}
+
+class EffectRunner implements Observer {
+  sources = new Set<Source>();
+  private cleanup: (() => void) | void = undefined;
+  private disposed = false;
+
+  constructor(private fn: () => void | (() => void)) {}
+
+  notify(): void {
+    if (!this.disposed) {
+      pendingEffects.add(this);
+    }
+  }
+
+  run(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.runCleanup();
+    try {
+      this.cleanup = runTracked(this, this.fn);
+    } catch (error) {
+      log.error('[AckerJS Signals] Error running effect', error);
+    }
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    pendingEffects.delete(this);
+    unsubscribeAll(this);
+    this.runCleanup();
+  }
+
+  private runCleanup(): void {
+    const cleanup = this.cleanup;
+    this.cleanup = undefined;
+    if (typeof cleanup === 'function') {
+      try {
+        cleanup();
+      } catch (error) {
+        log.error('[AckerJS Signals] Error running effect cleanup', error);
+      }
+    }
+  }
+}
+
+/**
+ * Create a writable signal
+ * @param initial - Initial value
+ * @param options - Optional equality check; equal writes do not notify (default: Object.is)
+ * @returns Signal
+ * @example
+ * const name = signal('Ada');
+ * effect(() => console.log(name.value));
+ * name.value = 'Grace'; // logs "Grace"
+ */
+export function signal<T>(initial: T, options: { equals?: (a: T, b: T) => boolean } = {}): Signal<T> {
+  return new Signal(initial, options.equals);
+}
+
+/**
+ * Create a value derived from other signals
+ * @param compute - Function reading signals
+ * @returns Read-only signal that recomputes when its dependencies change
+ * @example
+ * const total = computed(() => items.value.reduce((sum, item) => sum + item.price, 0));
+ */
+export function computed<T>(compute: () => T): Computed<T> {
+  return new Computed(compute);
+}
+
+/**
+ * Run a function now and again whenever the signals it reads change
+ * @param fn - Side effect; may return a cleanup run before the next run and on dispose
+ * @returns Function that stops the effect
+ * @example
+ * const stop = effect(() => {
+ *   document.title = `${unread.value} unread`;
+ * });
+ */
+export function effect(fn: () => void | (() => void)): Unsubscribe {
+  const runner = new EffectRunner(fn);
+  runner.run();
+  return () => runner.dispose();
+}
+
+/**
+ * Apply several signal writes, running affected effects once at the end
+ * @param fn - Function writing signals
+ * @returns The function's result
+ * @example
+ * batch(() => {
+ *   first.value = 'Ada';
+ *   last.value = 'Lovelace';
+ * });
+ */
+export function batch<T>(fn: () => T): T {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    batchDepth--;
+    if (batchDepth === 0) {
+      flush();
+    }
+  }
+}
+
+/**
+ * Read signals without subscribing the current effect or computed
+ * @param fn - Function reading signals
+ * @returns The function's result
+ */
+export function untrack<T>(fn: () => T): T {
+  const previous = currentObserver;
+  currentObserver = null;
+  try {
+    return fn();
+  } finally {
+    currentObserver = previous;
+  }
+}
+
+/**
+ * A plain value, a signal, or a function reading signals
+ */
+export type Reactive<T> = T | ReadonlySignal<T> | (() => T);
+
+function read<T>(source: Reactive<T>): T {
+  if (source instanceof Signal || source instanceof Computed) {
+    return (source as ReadonlySignal<T>).value;
+  }
+  return typeof source === 'function' ? (source as () => T)() : (source as T);
+}
+
+// Cleanups of the bindings on each element; weak so elements that are never attached can be collected
+const bindings = new WeakMap<Element, Disposer>();
+let liveBindings = 0;
+let removalObserver: MutationObserver | null = null;
+
+// Disposes the bindings of elements that were collected without being removed from the document
+const collected =
+  typeof FinalizationRegistry !== 'undefined' ? new FinalizationRegistry<Disposer>(disposer => release(disposer)) : null;
+
+function release(disposer: Disposer): void {
+  disposer.dispose();
+  liveBindings--;
+
+  if (liveBindings === 0 && removalObserver) {
+    removalObserver.disconnect();
+    removalObserver = null;
+  }
+}
+
+function disposeBindings(element: Element): void {
+  const disposer = bindings.get(element);
+  if (disposer) {
+    bindings.delete(element);
+    collected?.unregister(disposer);
+    release(disposer);
+  }
+}
+
+function checkRemovals(mutations: MutationRecord[]): void {
+  mutations.forEach(mutation => {
+    mutation.removedNodes.forEach(node => {
+      // Moved nodes are removed and inserted again before the observer runs
+      if (!(node instanceof Element) || node.isConnected) {
+        return;
+      }
+      disposeBindings(node);
+      node.querySelectorAll('*').forEach(disposeBindings);
+    });
+  });
+}
+
+/**
+ * Reference an element without keeping it alive where WeakRef is supported.
+ * Kept out of bindEffect so no closure there captures the element.
+ */
+function weakRef<E extends object>(element: E): { deref(): E | undefined } {
+  return typeof WeakRef !== 'undefined' ? new WeakRef(element) : { deref: () => element };
+}
+
+/**
+ * Run an effect for an element, disposed once the element is removed from the document
+ * or garbage collected. The effect only holds the element weakly, so `apply` receives it.
+ */
+function bindEffect<E extends HTMLElement>(element: E, apply: (element: E) => void): Unsubscribe {
+  if (!element) {
+    log.error('[AckerJS DOM] Invalid element for binding');
+    return () => {};
+  }
+
+  let disposer = bindings.get(element);
+  if (!disposer) {
+    disposer = createDisposer();
+    bindings.set(element, disposer);
+    collected?.register(element, disposer, disposer);
+    liveBindings++;
+  }
+
+  if (!removalObserver && typeof MutationObserver !== 'undefined' && typeof document !== 'undefined') {
+    removalObserver = new MutationObserver(checkRemovals);
+    removalObserver.observe(document, { childList: true, subtree: true });
+  }
+
+  const target = weakRef(element);
+  return disposer.add(
+    effect(() => {
+      const current = target.deref();
+      if (current) {
+        apply(current);
+      }
+    })
+  );
+}
+
+/**
+ * Keep an element's text content in sync with a reactive value
+ * @param element - Target HTMLElement
+ * @param source - Signal, function or value
+ * @returns Function that stops the binding
+ * @example
+ * bindText(counter, () => `${count.value} items`);
+ */
+export function bindText(element: HTMLElement, source: Reactive<unknown>): Unsubscribe {
+  return bindEffect(element, target => {
+    const value = read(source);
+    target.textContent = value === null || value === undefined ? '' : String(value);
+  });
+}
+
+/**
+ * Keep an attribute in sync with a reactive value; null, undefined and false remove it
+ * @param element - Target HTMLElement
+ * @param name - Attribute name
+ * @param source - Signal, function or value
+ * @returns Function that stops the binding
+ * @example
+ * bindAttribute(button, 'disabled', () => saving.value);
+ */
+export function bindAttribute(
+  element: HTMLElement,
+  name: string,
+  source: Reactive<string | number | boolean | null | undefined>
+): Unsubscribe {
+  return bindEffect(element, target => {
+    const value = read(source);
+    if (value === null || value === undefined || value === false) {
+      target.removeAttribute(name);
+    } else {
+      target.setAttribute(name, value === true ? '' : String(value));
+    }
+  });
+}
+
+/**
+ * Add or remove a class as a reactive condition changes
+ * @param element - Target HTMLElement
+ * @param className - Class to toggle
+ * @param source - Signal, function or value
+ * @returns Function that stops the binding
+ * @example
+ * bindClass(row, 'selected', () => selectedId.value === row.dataset.id);
+ */
+export function bindClass(element: HTMLElement, className: string, source: Reactive<boolean>): Unsubscribe {
+  return bindEffect(element, target => {
+    if (read(source)) {
+      addClass(target, className);
+    } else {
+      removeClass(target, className);
+    }
+  });
+}
+
+/**
+ * Keep an inline style property in sync with a reactive value; null and undefined clear it
+ * @param element - Target HTMLElement
+ * @param property - Style property, e.g. 'width' or 'backgroundColor'
+ * @param source - Signal, function or value
+ * @returns Function that stops the binding
+ * @example
+ * bindStyle(bar, 'width', () => `${progress.value}%`);
+ */
+export function bindStyle(
+  element: HTMLElement,
+  property: keyof CSSStyleDeclaration & string,
+  source: Reactive<string | number | null | undefined>
+): Unsubscribe {
+  return bindEffect(element, target => {
+    const value = read(source);
+    setStyles(target, { [property]: value === null || value === undefined ? '' : String(value) });
+  });
+}
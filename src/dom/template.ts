@@ -0,0 +1,291 @@
+/**
+ * HTML templates for AckerJS
+ * Tagged templates that escape interpolations and bind properties and events
+ */
+
+import { escapeHTML } from '../format/index.js';
+import { log } from '../logger.js';
+
+/**
+ * Markup inserted without escaping; create it with unsafeHTML
+ */
+export class UnsafeHTML {
+  constructor(readonly markup: string) {}
+
+  toString(): string {
+    return this.markup;
+  }
+}
+
+/**
+ * Insert trusted markup into an html template without escaping
+ * @param markup - HTML string; never pass user input
+ * @returns Markup wrapper
+ * @example
+ * html`<article>${unsafeHTML(renderedMarkdown)}</article>`;
+ */
+export function unsafeHTML(markup: string): UnsafeHTML {
+  return new UnsafeHTML(markup);
+}
+
+/**
+ * Property values and event handlers bound to an element by a template
+ */
+export interface ElementBindings {
+  properties: Record<string, unknown>;
+  events: Record<string, EventListener>;
+}
+
+// Key under which an element keeps its template bindings
+const BINDINGS = Symbol('ackerjs.bindings');
+
+type BoundElement = Element & {
+  [BINDINGS]?: ElementBindings & { listeners: Set<string> };
+};
+
+interface PendingBinding {
+  kind: 'property' | 'event';
+  name: string;
+  value: unknown;
+}
+
+const MARKER = 'data-acker-bind';
+// Attribute name with a binding prefix at the end of the markup before an interpolation.
+// Both patterns match the whitespace before the name, which stays in the markup (no lookbehind for older Safari).
+const SPECIAL_ATTRIBUTE = /\s([.@?])([^\s"'>/=]+)\s*=\s*(["']?)$/;
+const UNQUOTED_ATTRIBUTE = /\s[^\s"'>/=]+\s*=\s*$/;
+
+interface ScanState {
+  inTag: boolean;
+  quote: string | null;
+}
+
+function scan(state: ScanState, markup: string): void {
+  for (let i = 0; i < markup.length; i++) {
+    const char = markup[i];
+    if (state.quote) {
+      if (char === state.quote) {
+        state.quote = null;
+      }
+    } else if (state.inTag) {
+      if (char === '"' || char === "'") {
+        state.quote = char;
+      } else if (char === '>') {
+        state.inTag = false;
+      }
+    } else if (char === '<' && /[a-zA-Z/]/.test(markup[i + 1] ?? '')) {
+      state.inTag = true;
+    }
+  }
+}
+
+/**
+ * Find the `>` that closes the tag being scanned, skipping any inside quoted attribute values
+ * @returns Index in `markup`, or -1 if the tag does not close there
+ */
+function findTagEnd(state: ScanState, markup: string): number {
+  const probe = { ...state };
+  for (let i = 0; i < markup.length; i++) {
+    scan(probe, markup[i]);
+    if (!probe.inTag) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Markup ending where a tag name starts
+const TAG_NAME_POSITION = /<\/?$/;
+
+/**
+ * Result of the html tag: escaped markup plus the property and event bindings it declares
+ */
+export class TemplateResult {
+  constructor(
+    readonly strings: TemplateStringsArray,
+    readonly values: unknown[]
+  ) {}
+
+  /**
+   * Markup with interpolations escaped; property and event bindings are left out
+   */
+  toString(): string {
+    return this.build(null);
+  }
+
+  /**
+   * Create DOM nodes with property and event bindings applied
+   * @returns Fragment holding the rendered nodes
+   */
+  toFragment(): DocumentFragment {
+    const bindings: PendingBinding[][] = [];
+    const template = document.createElement('template');
+    template.innerHTML = this.build(bindings);
+
+    template.content.querySelectorAll(`[${MARKER}]`).forEach(element => {
+      const id = Number(element.getAttribute(MARKER));
+      element.removeAttribute(MARKER);
+
+      const declared: ElementBindings = { properties: {}, events: {} };
+      (bindings[id] ?? []).forEach(({ kind, name, value }) => {
+        if (kind === 'property') {
+          declared.properties[name] = value;
+        } else if (typeof value === 'function') {
+          declared.events[name] = value as EventListener;
+        } else if (value !== null && value !== undefined && value !== false) {
+          log.error(`[AckerJS DOM] Event binding @${name} expects a function`);
+        }
+      });
+      applyBindings(element, declared);
+    });
+
+    return template.content;
+  }
+
+  /**
+   * @param bindings - Collects property and event bindings per marker id, shared with nested templates;
+   * null leaves bindings and markers out
+   */
+  private build(bindings: PendingBinding[][] | null): string {
+    const state: ScanState = { inTag: false, quote: null };
+    let markup = '';
+    let pending: PendingBinding[] | null = null;
+    let skipQuote: string | null = null;
+
+    this.strings.forEach((chunk, index) => {
+      if (skipQuote && chunk.startsWith(skipQuote)) {
+        chunk = chunk.slice(1);
+      }
+      skipQuote = null;
+
+      // Bindings collected for the tag being written are flushed as a marker before it closes
+      const close = bindings && pending ? findTagEnd(state, chunk) : -1;
+      if (bindings && pending && close !== -1) {
+        const selfClosing = chunk[close - 1] === '/' ? 1 : 0;
+        const id = bindings.push(pending) - 1;
+        chunk = `${chunk.slice(0, close - selfClosing)} ${MARKER}="${id}"${chunk.slice(close - selfClosing)}`;
+        pending = null;
+      }
+
+      scan(state, chunk);
+      markup += chunk;
+
+      if (index === this.values.length) {
+        return;
+      }
+      const value = this.values[index];
+
+      if (!state.quote && TAG_NAME_POSITION.test(markup)) {
+        // Text escaping cannot stop a value from becoming a tag with its own attributes
+        log.error('[AckerJS DOM] Interpolations cannot be tag names; the value was dropped');
+        return;
+      }
+      if (!state.inTag) {
+        markup += this.renderContent(value, bindings);
+        return;
+      }
+
+      // A quote opened right after `=` belongs to the binding; any other open quote means we are inside a value
+      const special = SPECIAL_ATTRIBUTE.exec(markup);
+      if (special && (special[3] || null) === state.quote) {
+        const [text, prefix, name, quote] = special;
+        markup = markup.slice(0, markup.length - text.length + 1);
+        state.quote = null;
+        skipQuote = quote || null;
+
+        if (prefix === '?') {
+          markup += value ? name : '';
+        } else {
+          pending = pending ?? [];
+          pending.push({ kind: prefix === '.' ? 'property' : 'event', name, value });
+        }
+        return;
+      }
+
+      if (state.quote) {
+        markup += escapeHTML(stringify(value));
+        return;
+      }
+
+      const unquoted = UNQUOTED_ATTRIBUTE.exec(markup);
+      if (!unquoted) {
+        // Escaping cannot make attribute names or tag markup safe, so the value is dropped
+        log.error('[AckerJS DOM] Interpolations inside a tag must be attribute values, e.g. name=${value}');
+      } else if (value === null || value === undefined || value === false) {
+        // An unquoted attribute bound to nothing is left out
+        markup = markup.slice(0, markup.length - unquoted[0].length + 1);
+      } else {
+        markup += `"${escapeHTML(String(value))}"`;
+      }
+    });
+
+    return markup;
+  }
+
+  private renderContent(value: unknown, bindings: PendingBinding[][] | null): string {
+    if (value instanceof TemplateResult) {
+      return value.build(bindings);
+    }
+    if (value instanceof UnsafeHTML) {
+      return value.markup;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.renderContent(item, bindings)).join('');
+    }
+    return escapeHTML(stringify(value));
+  }
+}
+
+function stringify(value: unknown): string {
+  return value === null || value === undefined || value === false ? '' : String(value);
+}
+
+/**
+ * Apply property values and event handlers to an element, replacing the ones it had.
+ * One listener per event type calls the current handler, so re-renders never stack listeners.
+ * @param element - Target element
+ * @param bindings - Properties and events to bind
+ */
+export function applyBindings(element: Element, bindings: ElementBindings): void {
+  const target = element as BoundElement;
+  const state = target[BINDINGS] ?? (target[BINDINGS] = { properties: {}, events: {}, listeners: new Set() });
+
+  Object.entries(bindings.properties).forEach(([name, value]) => {
+    (element as unknown as Record<string, unknown>)[name] = value;
+  });
+  state.properties = bindings.properties;
+  state.events = bindings.events;
+
+  Object.keys(bindings.events).forEach(type => {
+    if (!state.listeners.has(type)) {
+      state.listeners.add(type);
+      element.addEventListener(type, event => state.events[type]?.call(element, event));
+    }
+  });
+}
+
+/**
+ * Read the bindings a template declared for an element
+ * @param element - Element created from a template
+ * @returns Bindings, or undefined if the element has none
+ */
+export function getBindings(element: Element): ElementBindings | undefined {
+  return (element as BoundElement)[BINDINGS];
+}
+
+/**
+ * Tagged template that escapes interpolated values.
+ * Inside tags, `name=${value}` sets an escaped attribute, `?name=${flag}` a boolean attribute,
+ * `.name=${value}` a DOM property and `@event=${handler}` an event listener.
+ * Nested templates, arrays and unsafeHTML are inserted as markup.
+ * @returns TemplateResult that components can return from render, or that can be turned into nodes
+ * @example
+ * const row = (user: User) => html`
+ *   <li data-key=${user.id} ?hidden=${!user.active}>
+ *     ${user.name} <button @click=${() => remove(user)}>Remove</button>
+ *   </li>`;
+ * list.replaceChildren(html`<ul>${users.map(row)}</ul>`.toFragment());
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): TemplateResult {
+  return new TemplateResult(strings, values);
+}
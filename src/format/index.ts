@@ -3,6 +3,11 @@
  * Provides common helpers for formatting strings, numbers, and dates
  */
 
+import { log } from '../logger.js';
+
+// Logging is configured library-wide; exported here for subpath-only imports
+export { configure, type LibraryConfig, type Logger, type LogLevel } from '../logger.js';
+
 /**
  * Format a date using the browser's locale or a specified locale
  * @param date - Date object to format
@@ -16,7 +21,7 @@ export function formatDate(date: Date, locale?: string): string {
   try {
     return date.toLocaleDateString(locale);
   } catch (error) {
-    console.error('[AckerJS Format] Error formatting date:', error);
+    log.error('[AckerJS Format] Error formatting date:', error);
     return date.toString();
   }
 }
@@ -33,7 +38,7 @@ export function formatDateTime(date: Date, locale?: string): string {
   try {
     return date.toLocaleString(locale);
   } catch (error) {
-    console.error('[AckerJS Format] Error formatting date time:', error);
+    log.error('[AckerJS Format] Error formatting date time:', error);
     return date.toString();
   }
 }
@@ -50,7 +55,7 @@ export function formatTime(date: Date, locale?: string): string {
   try {
     return date.toLocaleTimeString(locale);
   } catch (error) {
-    console.error('[AckerJS Format] Error formatting time:', error);
+    log.error('[AckerJS Format] Error formatting time:', error);
     return date.toString();
   }
 }
@@ -73,7 +78,7 @@ export function formatDateCustom(
   try {
     return new Intl.DateTimeFormat(locale, options).format(date);
   } catch (error) {
-    console.error('[AckerJS Format] Error formatting date with custom options:', error);
+    log.error('[AckerJS Format] Error formatting date with custom options:', error);
     return date.toString();
   }
 }
@@ -112,7 +117,7 @@ export function formatRelativeTime(date: Date, locale?: string): string {
       return rtf.format(diffInSeconds, 'second');
     }
   } catch (error) {
-    console.error('[AckerJS Format] Error formatting relative time:', error);
+    log.error('[AckerJS Format] Error formatting relative time:', error);
     return date.toString();
   }
 }
@@ -224,7 +229,7 @@ export function formatNumber(num: number, decimals?: number, locale?: string): s
     }
     return new Intl.NumberFormat(locale, options).format(num);
   } catch (error) {
-    console.error('[AckerJS Format] Error formatting number:', error);
+    log.error('[AckerJS Format] Error formatting number:', error);
     return num.toString();
   }
 }
@@ -246,7 +251,7 @@ export function formatCurrency(amount: number, currency: string = 'USD', locale?
       currency,
     }).format(amount);
   } catch (error) {
-    console.error('[AckerJS Format] Error formatting currency:', error);
+    log.error('[AckerJS Format] Error formatting currency:', error);
     return amount.toString();
   }
 }
@@ -276,7 +281,7 @@ export function formatPercent(
       maximumFractionDigits: decimals,
     }).format(normalizedValue);
   } catch (error) {
-    console.error('[AckerJS Format] Error formatting percent:', error);
+    log.error('[AckerJS Format] Error formatting percent:', error);
     return value.toString();
   }
 }
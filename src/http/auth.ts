@@ -0,0 +1,114 @@
+/**
+ * Authentication support for createFetch clients
+ * Attaches access tokens and refreshes them once for all concurrent 401 responses
+ */
+
+import { log } from '../logger.js';
+
+/**
+ * Supplies and refreshes access tokens
+ * @example
+ * const auth: AuthProvider = {
+ *   getToken: () => store.accessToken,
+ *   refreshToken: async () => {
+ *     store.accessToken = (await postJSON('/auth/refresh', { token: store.refreshToken })).accessToken;
+ *   },
+ * };
+ */
+export interface AuthProvider {
+  /** Current access token; nothing is attached when it is empty */
+  getToken: () => string | null | undefined | Promise<string | null | undefined>;
+  /** Obtain a new access token; afterwards `getToken` must return it. Reject if the session cannot be renewed. */
+  refreshToken: () => Promise<unknown>;
+  /** Header carrying the token (default: 'Authorization') */
+  header?: string;
+  /** Scheme prefixed to the token (default: 'Bearer'); use '' to send the bare token */
+  scheme?: string;
+}
+
+export type AuthExpiredListener = (error: unknown) => void;
+
+/**
+ * Coordinates token refreshes for one client
+ */
+export class AuthManager {
+  private refreshing: Promise<void> | null = null;
+  private listeners = new Set<AuthExpiredListener>();
+
+  constructor(private provider: AuthProvider) {}
+
+  /**
+   * Current access token
+   */
+  async getToken(): Promise<string | null | undefined> {
+    return this.provider.getToken();
+  }
+
+  /**
+   * Header name and value for a token
+   * @param token - Access token
+   */
+  header(token: string): [string, string] {
+    const scheme = this.provider.scheme ?? 'Bearer';
+    return [this.provider.header ?? 'Authorization', scheme ? `${scheme} ${token}` : token];
+  }
+
+  /**
+   * Refresh the token after a 401, sharing one refresh between concurrent callers
+   * @param usedToken - Token the failed request was sent with
+   * @returns Promise resolving once a newer token is available
+   */
+  async refresh(usedToken: string | null | undefined): Promise<void> {
+    if (this.refreshing) {
+      return this.refreshing;
+    }
+
+    // Another request already refreshed the token after this one was sent
+    const current = await this.provider.getToken();
+    if (current && current !== usedToken) {
+      return;
+    }
+
+    if (!this.refreshing) {
+      this.refreshing = this.provider
+        .refreshToken()
+        .then(
+          () => undefined,
+          (error) => {
+            this.expire(error);
+            throw error;
+          }
+        )
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Notify listeners that the session has expired
+   * @param error - Refresh failure or the final 401 error
+   */
+  expire(error: unknown): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(error);
+      } catch (listenerError) {
+        log.error('[AckerJS HTTP] Auth expired listener failed:', listenerError);
+      }
+    });
+  }
+
+  /**
+   * Listen for session expiry
+   * @param listener - Called when refreshing fails or a refreshed token is rejected
+   * @returns Function that removes the listener
+   */
+  onExpired(listener: AuthExpiredListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
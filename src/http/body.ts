@@ -0,0 +1,53 @@
+/**
+ * Request and response body handling for AckerJS HTTP requests
+ */
+
+/**
+ * How the response body is read
+ * - `json` parsed JSON (default)
+ * - `text` string
+ * - `blob` Blob
+ * - `arrayBuffer` ArrayBuffer
+ * - `stream` the body ReadableStream, unread
+ * - `response` the Response itself, unread
+ */
+export type ResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer' | 'stream' | 'response';
+
+/**
+ * Check whether a value is a body fetch can send as-is, without JSON serialization
+ * @param body - Request body or data
+ * @returns True for FormData, URLSearchParams, Blob, ArrayBuffer, typed arrays and streams
+ */
+export function isRawBody(body: unknown): boolean {
+  return (
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob) ||
+    (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream) ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body)
+  );
+}
+
+/**
+ * Read a successful response body
+ * @param response - Successful Response
+ * @param responseType - How to read the body
+ * @returns Promise resolving to the body in the requested form
+ */
+export async function readBody(response: Response, responseType: ResponseType): Promise<unknown> {
+  switch (responseType) {
+    case 'response':
+      return response;
+    case 'stream':
+      return response.body;
+    case 'text':
+      return response.text();
+    case 'blob':
+      return response.blob();
+    case 'arrayBuffer':
+      return response.arrayBuffer();
+    default:
+      return response.json();
+  }
+}
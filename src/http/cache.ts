@@ -0,0 +1,151 @@
+/**
+ * In-memory response cache for AckerJS HTTP GET requests
+ * Deduplicates in-flight requests and serves stale entries while revalidating
+ */
+
+/**
+ * Cache policy for a GET request
+ */
+export interface CacheOptions {
+  /** Time in milliseconds an entry is considered fresh (default: 60000) */
+  ttl?: number;
+  /** Extra time in milliseconds a stale entry is served while it is refreshed in the background (default: 0) */
+  staleWhileRevalidate?: number;
+  /** Cache key; defaults to the request URL */
+  key?: string;
+}
+
+interface CacheEntry {
+  data: unknown;
+  expires: number;
+  staleUntil: number;
+}
+
+const DEFAULT_TTL = 60000;
+
+/**
+ * Response cache with TTL, stale-while-revalidate and in-flight deduplication
+ * @example
+ * const cache = new ResponseCache();
+ * const me = await cache.fetch('/api/me', () => fetchJSON('/api/me'), { ttl: 30000 });
+ * cache.invalidate('/api/users', { prefix: true });
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Return a cached value, or load it once for all concurrent callers
+   * @param key - Cache key
+   * @param load - Function performing the request
+   * @param options - Cache policy
+   * @returns Promise resolving to the cached or freshly loaded value
+   */
+  fetch<T>(key: string, load: () => Promise<T>, options: CacheOptions = {}): Promise<T> {
+    const entry = this.entries.get(key);
+    const now = Date.now();
+
+    if (entry && now < entry.expires) {
+      return Promise.resolve(entry.data as T);
+    }
+
+    if (entry && now < entry.staleUntil) {
+      this.load(key, load, options).catch(() => {
+        // Keep serving the stale entry; the next caller retries
+      });
+      return Promise.resolve(entry.data as T);
+    }
+
+    return this.load(key, load, options);
+  }
+
+  /**
+   * Check whether a key has a fresh or stale-but-servable entry
+   * @param key - Cache key
+   */
+  has(key: string): boolean {
+    const entry = this.entries.get(key);
+    return !!entry && Date.now() < entry.staleUntil;
+  }
+
+  /**
+   * Store a value directly
+   * @param key - Cache key
+   * @param data - Value to cache
+   * @param options - Cache policy used to compute expiry
+   */
+  set(key: string, data: unknown, options: CacheOptions = {}): void {
+    const ttl = options.ttl ?? DEFAULT_TTL;
+    const expires = Date.now() + ttl;
+    this.entries.set(key, {
+      data,
+      expires,
+      staleUntil: expires + (options.staleWhileRevalidate ?? 0),
+    });
+  }
+
+  /**
+   * Remove entries by exact key or by key prefix
+   * @param key - Key or key prefix
+   * @param options - Set `prefix` to remove every key starting with `key`
+   * @example
+   * cache.invalidate('https://api.example.com/users', { prefix: true });
+   */
+  invalidate(key: string, options: { prefix?: boolean } = {}): void {
+    for (const store of [this.entries, this.inflight]) {
+      if (!options.prefix) {
+        store.delete(key);
+        continue;
+      }
+      for (const cached of Array.from(store.keys())) {
+        if (cached.startsWith(key)) {
+          store.delete(cached);
+        }
+      }
+    }
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+    this.inflight.clear();
+  }
+
+  private load<T>(key: string, load: () => Promise<T>, options: CacheOptions): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise: Promise<T> = load()
+      .then(data => {
+        // Skip storing if the key was invalidated while the request was in flight
+        if (this.inflight.get(key) === promise) {
+          this.set(key, data, options);
+        }
+        return data;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === promise) {
+          this.inflight.delete(key);
+        }
+      });
+
+    this.inflight.set(key, promise);
+    return promise;
+  }
+}
+
+/**
+ * Resolve the responseCache option of a request into a cache policy
+ * @param option - Option as passed by the caller
+ * @returns Cache policy, or null if caching is disabled
+ */
+export function resolveCache(option: boolean | CacheOptions | undefined): CacheOptions | null {
+  if (!option) {
+    return null;
+  }
+  return option === true ? {} : option;
+}
@@ -0,0 +1,90 @@
+/**
+ * Conditional request support for AckerJS HTTP requests
+ * Remembers ETag and Last-Modified validators per URL
+ */
+
+/**
+ * Validators and body stored for a URL
+ */
+export interface StoredValidators {
+  etag?: string;
+  lastModified?: string;
+  body: unknown;
+}
+
+/**
+ * Per-URL store of response validators and the bodies they describe
+ * @example
+ * const validators = new ValidatorStore();
+ * validators.get('https://api.example.com/users/1')?.etag;
+ */
+export class ValidatorStore {
+  private entries = new Map<string, StoredValidators>();
+
+  /**
+   * Get the validators stored for a URL
+   * @param url - Request URL
+   */
+  get(url: string): StoredValidators | undefined {
+    return this.entries.get(url);
+  }
+
+  /**
+   * Store validators from a response, if it carries any
+   * @param url - Request URL
+   * @param response - Successful response
+   * @param body - Parsed response body
+   */
+  store(url: string, response: Response, body: unknown): void {
+    const etag = response.headers.get('etag') ?? undefined;
+    const lastModified = response.headers.get('last-modified') ?? undefined;
+
+    if (etag || lastModified) {
+      this.entries.set(url, { etag, lastModified, body });
+    } else {
+      this.entries.delete(url);
+    }
+  }
+
+  /**
+   * Forget the validators stored for a URL
+   * @param url - Request URL
+   */
+  delete(url: string): void {
+    this.entries.delete(url);
+  }
+
+  /**
+   * Forget all stored validators
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Check whether a header record contains a header, ignoring case
+ * @param headers - Header record
+ * @param name - Header name
+ */
+export function hasHeader(headers: Record<string, string>, name: string): boolean {
+  const lower = name.toLowerCase();
+  return Object.keys(headers).some(key => key.toLowerCase() === lower);
+}
+
+/**
+ * Add If-None-Match / If-Modified-Since headers from stored validators
+ * @param headers - Header record to extend
+ * @param stored - Stored validators for the request URL
+ */
+export function addConditionalHeaders(
+  headers: Record<string, string>,
+  stored: StoredValidators | undefined
+): void {
+  if (stored?.etag && !hasHeader(headers, 'If-None-Match')) {
+    headers['If-None-Match'] = stored.etag;
+  }
+  if (stored?.lastModified && !hasHeader(headers, 'If-Modified-Since')) {
+    headers['If-Modified-Since'] = stored.lastModified;
+  }
+}
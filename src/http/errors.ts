@@ -0,0 +1,271 @@
+/**
+ * HTTP error classes
+ * Distinguish server errors, network failures, unreadable bodies, timeouts and cancellations
+ */
+
+import type { QueuedMutation } from './offline.js';
+
+/**
+ * RFC 7807 problem details object (`application/problem+json`)
+ */
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+/**
+ * Additional response details attached to an HTTPError
+ */
+export interface HTTPErrorDetails<B = any> {
+  /** Parsed response body: JSON when the server sent JSON, otherwise text */
+  body?: B;
+  /** Response headers */
+  headers?: Headers;
+  /** Request method */
+  method?: string;
+}
+
+const PROBLEM_MEMBERS = ['type', 'title', 'status', 'detail', 'instance'];
+
+/**
+ * Custom HTTP error class
+ * @example
+ * try {
+ *   await postJSON('/api/users', form);
+ * } catch (error) {
+ *   if (error instanceof HTTPError && error.status === 422) {
+ *     showFieldErrors(error.body.errors);
+ *   }
+ * }
+ */
+export class HTTPError<B = any> extends Error {
+  /** Parsed response body */
+  body?: B;
+  /** Response headers */
+  headers: Headers;
+  /** Request method */
+  method: string;
+  /** RFC 7807 problem details, when the server responded with application/problem+json */
+  problem?: ProblemDetails;
+
+  constructor(
+    message: string,
+    public status: number,
+    public statusText: string,
+    public url: string,
+    details: HTTPErrorDetails<B> = {}
+  ) {
+    super(message);
+    this.name = 'HTTPError';
+    this.body = details.body;
+    this.headers = details.headers ?? new Headers();
+    this.method = (details.method || 'GET').toUpperCase();
+
+    const contentType = this.headers.get('content-type') || '';
+    if (contentType.includes('application/problem+json') && isObject(details.body)) {
+      this.problem = details.body as ProblemDetails;
+    }
+  }
+
+  /** Problem type URI */
+  get type(): string | undefined {
+    return this.problem?.type;
+  }
+
+  /** Short, human-readable problem summary */
+  get title(): string | undefined {
+    return this.problem?.title;
+  }
+
+  /** Human-readable explanation specific to this occurrence */
+  get detail(): string | undefined {
+    return this.problem?.detail;
+  }
+
+  /** URI identifying this occurrence of the problem */
+  get instance(): string | undefined {
+    return this.problem?.instance;
+  }
+
+  /** Problem members beyond the standard RFC 7807 fields, such as validation errors */
+  get extensions(): Record<string, unknown> {
+    if (!this.problem) {
+      return {};
+    }
+    return Object.fromEntries(
+      Object.entries(this.problem).filter(([key]) => !PROBLEM_MEMBERS.includes(key))
+    );
+  }
+}
+
+/**
+ * Thrown on 412 Precondition Failed, e.g. when an `ifMatch` ETag is outdated
+ */
+export class PreconditionFailedError<B = any> extends HTTPError<B> {
+  constructor(
+    message: string,
+    status: number,
+    statusText: string,
+    url: string,
+    details: HTTPErrorDetails<B> = {}
+  ) {
+    super(message, status, statusText, url, details);
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+/**
+ * Thrown when the request could not reach the server (DNS, CORS, offline, ...)
+ */
+export class NetworkError extends Error {
+  constructor(
+    public url: string,
+    public method: string,
+    public cause?: unknown
+  ) {
+    super(`Failed to fetch from ${url}: ${(cause as Error)?.message ?? cause}`);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Thrown when a successful response body cannot be parsed
+ */
+export class ParseError extends Error {
+  constructor(
+    public url: string,
+    public status: number,
+    public cause?: unknown
+  ) {
+    super(`Failed to parse response from ${url}: ${(cause as Error)?.message ?? cause}`);
+    this.name = 'ParseError';
+  }
+}
+
+/**
+ * Path and description of a value that failed validation
+ */
+export interface ValidationIssue {
+  /** Path of the failing value, e.g. `$.users[0].id` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a response does not match the `validate` type guard or schema
+ */
+export class ValidationError extends Error {
+  constructor(
+    public url: string,
+    public issues: ValidationIssue[],
+    public data: unknown
+  ) {
+    super(
+      `Invalid response from ${url}: ` +
+        issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')
+    );
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Error entry of a GraphQL response
+ */
+export interface GraphQLErrorEntry {
+  message: string;
+  locations?: { line: number; column: number }[];
+  path?: (string | number)[];
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Thrown when a GraphQL response contains `errors`
+ */
+export class GraphQLError<D = any> extends Error {
+  constructor(
+    public errors: GraphQLErrorEntry[],
+    /** Partial data returned alongside the errors */
+    public data?: D | null,
+    public operationName?: string
+  ) {
+    super(errors.map(error => error.message).join('; ') || 'GraphQL request failed');
+    this.name = 'GraphQLError';
+  }
+}
+
+/**
+ * Thrown when a JSON-RPC call returns an `error` object
+ */
+export class JsonRpcError<D = any> extends Error {
+  constructor(
+    /** JSON-RPC error code, e.g. -32601 for "Method not found" */
+    public code: number,
+    message: string,
+    public data?: D,
+    public method?: string
+  ) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+/**
+ * Thrown by offline-enabled client mutations that were queued for replay instead of sent
+ */
+export class OfflineQueuedError extends Error {
+  constructor(
+    public mutation: QueuedMutation,
+    /** Failure that caused queuing; undefined if the client was already offline */
+    public cause?: unknown
+  ) {
+    super(`${mutation.method} ${mutation.url} was queued for replay when back online`);
+    this.name = 'OfflineQueuedError';
+  }
+}
+
+/**
+ * Thrown when a request exceeds its `timeout`
+ */
+export class TimeoutError extends Error {
+  constructor(
+    public url: string,
+    public timeout: number
+  ) {
+    super(`Request to ${url} timed out after ${timeout}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Thrown when a request is cancelled through the caller's AbortSignal
+ */
+export class AbortError extends Error {
+  constructor(
+    public url: string,
+    public reason?: unknown
+  ) {
+    super(`Request to ${url} was aborted`);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Thrown by MockTransport when a request matches no route; never retried or reported as a network error
+ */
+export class UnmatchedRequestError extends Error {
+  constructor(
+    public method: string,
+    public url: string
+  ) {
+    super(`[AckerJS HTTP] MockTransport has no route for ${method} ${url}`);
+    this.name = 'UnmatchedRequestError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,167 @@
+/**
+ * GraphQL client helpers for AckerJS
+ * Sends operations through the JSON POST helpers and surfaces `errors` as GraphQLError
+ */
+
+import { GraphQLError, HTTPError, type GraphQLErrorEntry } from './errors.js';
+import type { RequestOptions } from './types.js';
+
+/**
+ * A GraphQL operation
+ */
+export interface GraphQLRequest<V = Record<string, unknown>> {
+  /** Query document; may be omitted when `persisted` carries a known hash */
+  query?: string;
+  variables?: V;
+  operationName?: string;
+  /**
+   * Send an automatic persisted query: `true` hashes `query` with SHA-256, a string is used as the hash.
+   * The full query is sent again if the server does not know the hash.
+   */
+  persisted?: boolean | string;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Raw GraphQL response body
+ */
+export interface GraphQLResponse<D = any> {
+  data?: D | null;
+  errors?: GraphQLErrorEntry[];
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * JSON POST function the GraphQL helpers are built on, such as postJSON or a createFetch client's post
+ */
+export type PostFunction = <T>(url: string, data: unknown, options?: RequestOptions<T>) => Promise<T>;
+
+/**
+ * Compute the hex SHA-256 hash of a query for automatic persisted queries
+ * @param query - Query document
+ */
+export async function hashQuery(query: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(query));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function toBody(request: GraphQLRequest<any>, includeQuery: boolean): Promise<Record<string, unknown>> {
+  const { query, variables, operationName, persisted, extensions } = request;
+  const body: Record<string, unknown> = {};
+
+  if (includeQuery || !persisted) {
+    body.query = query;
+  }
+  if (variables !== undefined) {
+    body.variables = variables;
+  }
+  if (operationName) {
+    body.operationName = operationName;
+  }
+
+  if (persisted) {
+    const sha256Hash = typeof persisted === 'string' ? persisted : await hashQuery(query ?? '');
+    body.extensions = { ...extensions, persistedQuery: { version: 1, sha256Hash } };
+  } else if (extensions) {
+    body.extensions = extensions;
+  }
+
+  return body;
+}
+
+function isPersistedQueryMiss(response: GraphQLResponse): boolean {
+  return !!response.errors?.some(error =>
+    error.message === 'PersistedQueryNotFound' ||
+    error.extensions?.code === 'PERSISTED_QUERY_NOT_FOUND'
+  );
+}
+
+/**
+ * Unwrap a GraphQL response, throwing on errors
+ * @param response - Raw response body
+ * @param operationName - Operation name, for the error
+ * @returns Response data
+ * @throws GraphQLError if the response contains errors
+ */
+export function unwrapGraphQL<D>(response: GraphQLResponse<D>, operationName?: string): D {
+  if (response.errors && response.errors.length > 0) {
+    throw new GraphQLError<D>(response.errors, response.data, operationName);
+  }
+  return response.data as D;
+}
+
+/**
+ * POST a GraphQL body, turning HTTP error responses that carry GraphQL errors into GraphQLError
+ */
+async function send<D>(
+  post: PostFunction,
+  url: string,
+  body: unknown,
+  options?: RequestOptions
+): Promise<GraphQLResponse<D>> {
+  try {
+    return await post<GraphQLResponse<D>>(url, body, options);
+  } catch (error) {
+    const body = error instanceof HTTPError ? error.body : undefined;
+    if (Array.isArray(body?.errors)) {
+      return { data: body.data, errors: body.errors };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Execute one GraphQL operation
+ * @param post - JSON POST function
+ * @param url - GraphQL endpoint
+ * @param request - Operation
+ * @param options - Request options
+ * @returns Promise resolving to the operation data
+ * @throws GraphQLError if the response contains errors
+ */
+export async function executeGraphQL<D, V>(
+  post: PostFunction,
+  url: string,
+  request: GraphQLRequest<V>,
+  options?: RequestOptions
+): Promise<D> {
+  let response = await send<D>(post, url, await toBody(request, false), options);
+
+  if (request.persisted && request.query && isPersistedQueryMiss(response)) {
+    response = await send<D>(post, url, await toBody(request, true), options);
+  }
+
+  return unwrapGraphQL(response, request.operationName);
+}
+
+/**
+ * Execute several GraphQL operations in one batched request
+ * @param post - JSON POST function
+ * @param url - GraphQL endpoint (must support array batching)
+ * @param requests - Operations
+ * @param options - Request options
+ * @returns Promise resolving to one settled result per operation, in order
+ */
+export async function executeGraphQLBatch(
+  post: PostFunction,
+  url: string,
+  requests: GraphQLRequest<any>[],
+  options?: RequestOptions
+): Promise<PromiseSettledResult<any>[]> {
+  const bodies = await Promise.all(requests.map(request => toBody({ ...request, persisted: false }, true)));
+  const responses = await post<GraphQLResponse[]>(url, bodies, options);
+
+  if (!Array.isArray(responses) || responses.length !== requests.length) {
+    throw new GraphQLError([{ message: `Expected ${requests.length} batched results from ${url}` }]);
+  }
+
+  return responses.map((response, index) => {
+    try {
+      return { status: 'fulfilled', value: unwrapGraphQL(response, requests[index].operationName) };
+    } catch (reason) {
+      return { status: 'rejected', reason };
+    }
+  });
+}
@@ -3,149 +3,667 @@
  * Provides fetch wrappers with built-in error handling and JSON parsing
  */
 
-/**
- * Custom HTTP error class
- */
-export class HTTPError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public statusText: string,
-    public url: string
-  ) {
-    super(message);
-    this.name = 'HTTPError';
-  }
-}
+import { configure as configureLogging, log, type LibraryConfig } from '../logger.js';
+import {
+  createInterceptors,
+  type Interceptors,
+  type RequestConfig,
+} from './interceptors.js';
+import { ResponseCache, resolveCache } from './cache.js';
+import { AuthManager, type AuthExpiredListener } from './auth.js';
+import { isRawBody, readBody, type ResponseType } from './body.js';
+import { addConditionalHeaders, ValidatorStore } from './conditional.js';
+import { JsonRpcClient, type JsonRpcOptions } from './jsonrpc.js';
+import { OfflineQueue, type MutationMethod, type QueuedMutation } from './offline.js';
+import { executeGraphQL, executeGraphQLBatch, type GraphQLRequest, type PostFunction } from './graphql.js';
+import { HTTPError, NetworkError, ParseError, PreconditionFailedError, UnmatchedRequestError } from './errors.js';
+import {
+  defaultItems,
+  iteratePages,
+  type LoadedPage,
+  type PaginateOptions,
+  type PaginationStrategy,
+} from './pagination.js';
+import { fetchWithUploadProgress, trackDownload } from './progress.js';
+import { RequestQueue } from './queue.js';
+import { resolveRetry, retryDelay, sleep } from './retry.js';
+import { EventStream, type EventStreamOptions } from './sse.js';
+import { assertValid } from './validate.js';
+import { abortError, createRequestSignal, raceSignal } from './timeout.js';
+import type { ClientOptions, FetchFunction, RequestMetrics, RequestOptions } from './types.js';
+
+export {
+  HTTPError,
+  NetworkError,
+  ParseError,
+  PreconditionFailedError,
+  ValidationError,
+  TimeoutError,
+  AbortError,
+  GraphQLError,
+  JsonRpcError,
+  OfflineQueuedError,
+  UnmatchedRequestError,
+  type GraphQLErrorEntry,
+  type HTTPErrorDetails,
+  type ProblemDetails,
+  type ValidationIssue,
+} from './errors.js';
+export type { ClientOptions, FetchFunction, RequestMetrics, RequestOptions } from './types.js';
+export type { LibraryConfig, Logger, LogLevel } from '../logger.js';
+export type { AuthProvider, AuthExpiredListener } from './auth.js';
+export { RequestQueue, type QueueOptions, type RequestPriority } from './queue.js';
+export {
+  EventStream,
+  EventStreamParser,
+  type EventStreamOptions,
+  type EventStreamState,
+  type ServerSentEvent,
+} from './sse.js';
+export {
+  SocketClient,
+  createSocket,
+  type SocketOptions,
+  type SocketState,
+  type WebSocketConstructor,
+  type WebSocketLike,
+} from './socket.js';
+export {
+  hashQuery,
+  unwrapGraphQL,
+  type GraphQLRequest,
+  type GraphQLResponse,
+  type PostFunction,
+} from './graphql.js';
+export {
+  JsonRpcClient,
+  type JsonRpcId,
+  type JsonRpcOptions,
+  type JsonRpcParams,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from './jsonrpc.js';
+export {
+  OfflineQueue,
+  memoryStorage,
+  localStorageStorage,
+  indexedDBStorage,
+  type ConflictResolution,
+  type MutationMethod,
+  type OfflineOptions,
+  type OfflineStatus,
+  type OfflineStorage,
+  type QueuedMutation,
+} from './offline.js';
+export {
+  MockTransport,
+  type MockCall,
+  type MockHandler,
+  type MockResponse,
+} from './mock.js';
+export type { ResponseType } from './body.js';
+export type { Progress, ProgressCallback } from './progress.js';
+export {
+  buildURL,
+  parseURL,
+  type ArrayFormat,
+  type BuildURLOptions,
+  type ParseURLOptions,
+  type QueryValue,
+} from './url.js';
+export {
+  parseLinkHeader,
+  type PaginateOptions,
+  type PaginationStrategy,
+  type LinkPagination,
+  type CursorPagination,
+  type PagePagination,
+  type OffsetPagination,
+} from './pagination.js';
+export { ResponseCache, type CacheOptions } from './cache.js';
+export { ValidatorStore, type StoredValidators } from './conditional.js';
+export {
+  schema,
+  assertValid,
+  type Schema,
+  type Infer,
+  type TypeGuard,
+  type Validator,
+} from './validate.js';
+export { parseRetryAfter, type RetryOptions } from './retry.js';
+
+export {
+  InterceptorManager,
+  type Interceptors,
+  type RequestConfig,
+  type RequestInterceptor,
+  type ResponseInterceptor,
+  type ErrorInterceptor,
+} from './interceptors.js';
 
 /**
  * Default error handler for HTTP requests
  * @param response - Fetch Response object
+ * @param method - Request method
+ * @param url - Request URL, used when the response does not report one
  * @throws HTTPError if response is not ok
+ * @throws PreconditionFailedError on 412 Precondition Failed
  */
-async function handleResponse(response: Response): Promise<void> {
+async function handleResponse(response: Response, method: string, url: string): Promise<void> {
   if (!response.ok) {
     let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+    let body: any;
     
     try {
       const contentType = response.headers.get('content-type');
-      if (contentType && contentType.includes('application/json')) {
-        const errorData = await response.json();
-        errorMessage = errorData.message || errorData.error || errorMessage;
-      } else {
-        const errorText = await response.text();
-        if (errorText) {
-          errorMessage = errorText;
-        }
+      const errorText = await response.text();
+
+      if (contentType && contentType.includes('json') && errorText) {
+        body = JSON.parse(errorText);
+        errorMessage = body.detail || body.title || body.message || body.error || errorMessage;
+      } else if (errorText) {
+        body = errorText;
+        errorMessage = errorText;
       }
     } catch {
       // Use default error message if parsing fails
     }
     
-    throw new HTTPError(
+    const ErrorClass = response.status === 412 ? PreconditionFailedError : HTTPError;
+    throw new ErrorClass(
       errorMessage,
       response.status,
       response.statusText,
-      response.url
+      response.url || url,
+      { body, headers: response.headers, method }
     );
   }
 }
 
 /**
- * Fetch JSON data from a URL with automatic error handling
- * @param url - URL to fetch from
+ * Normalize any HeadersInit into a plain header record
+ * @param headers - Headers instance, entry list or record
+ * @returns Plain object of header names to values
+ */
+function toHeaderRecord(headers?: HeadersInit): Record<string, string> {
+  if (!headers) {
+    return {};
+  }
+  if (headers instanceof Headers) {
+    const record: Record<string, string> = {};
+    headers.forEach((value, key) => {
+      record[key] = value;
+    });
+    return record;
+  }
+  if (Array.isArray(headers)) {
+    return Object.fromEntries(headers);
+  }
+  return { ...headers };
+}
+
+/**
+ * Build request options that send a body
+ * @param method - HTTP method
+ * @param data - Data to send; JSON stringified unless it is FormData, URLSearchParams, Blob, binary or a stream
  * @param options - Optional fetch options
- * @returns Promise resolving to parsed JSON data
- * @throws HTTPError if request fails
+ * @returns Fetch options with the body, and a JSON content type when the body was serialized
+ */
+function withBody(method: string, data: any, options?: RequestOptions): RequestOptions {
+  if (isRawBody(data)) {
+    const init: RequestOptions = { ...options, method, body: data };
+    if (typeof ReadableStream !== 'undefined' && data instanceof ReadableStream) {
+      // Streaming uploads require half-duplex mode
+      (init as RequestOptions & { duplex: string }).duplex = 'half';
+    }
+    return init;
+  }
+
+  return {
+    ...options,
+    method,
+    body: JSON.stringify(data),
+    headers: {
+      'Content-Type': 'application/json',
+      ...toHeaderRecord(options?.headers),
+    },
+  };
+}
+
+/**
+ * Per-client state threaded through the request pipeline
+ */
+interface RequestContext {
+  interceptors?: Interceptors;
+  auth?: AuthManager;
+  queue?: RequestQueue;
+  cache?: ResponseCache;
+  validators?: ValidatorStore;
+}
+
+/**
+ * Module-wide HTTP settings, plus the library-wide logging settings
+ */
+export interface HTTPConfig extends LibraryConfig {
+  /** fetch implementation used by every helper unless a request passes its own */
+  fetch?: FetchFunction;
+  /** Request metrics hook used unless a request or client passes its own `onMetrics` */
+  onMetrics?: (metrics: RequestMetrics) => void;
+}
+
+const settings: Omit<HTTPConfig, keyof LibraryConfig> = {};
+
+/**
+ * Configure the HTTP helpers; `logger` and `logLevel` apply to every module
+ * @param config - Settings to apply; omitted keys keep their current value
  * @example
- * const data = await fetchJSON<User>('https://api.example.com/user/1');
+ * const mock = new MockTransport().get('/api/me', { body: { id: 1 } });
+ * configure({ fetch: mock.fetch, logLevel: 'error' });
+ * configure({ onMetrics: ({ method, url, status, duration }) => metrics.timing(`${method} ${url}`, duration, { status }) });
  */
-export async function fetchJSON<T = any>(
+export function configure(config: HTTPConfig): void {
+  const { logger, logLevel, ...http } = config;
+  configureLogging({ logger, logLevel });
+  Object.assign(settings, http);
+}
+
+/**
+ * Cache and validator store used by the standalone helpers
+ */
+const sharedCache = new ResponseCache();
+const sharedValidators = new ValidatorStore();
+
+/**
+ * Perform a request, serving GETs from the response cache when enabled
+ * @param url - URL to fetch from
+ * @param options - Optional request options
+ * @param context - Optional client state from createFetch
+ * @returns Promise resolving to parsed JSON data
+ */
+async function request<T>(
   url: string,
-  options?: RequestInit
+  options?: RequestOptions,
+  context: RequestContext = {}
 ): Promise<T> {
+  const cache = context.cache ?? sharedCache;
+  const method = (options?.method || 'GET').toUpperCase();
+  const policy = method === 'GET' ? resolveCache(options?.responseCache) : null;
+
+  if (policy) {
+    // Concurrent callers share one load, so it runs without any one caller's signal or timeout;
+    // each caller stops waiting on its own instead
+    const shared: RequestOptions = { ...options, signal: undefined, timeout: undefined };
+    const result = cache.fetch<T>(policy.key ?? url, () => authorized<T>(url, shared, context), policy);
+    return raceSignal(url, result, options?.signal, options?.timeout);
+  }
+
+  const result = await authorized<T>(url, options, context);
+
+  if (options?.invalidate) {
+    const prefixes = Array.isArray(options.invalidate) ? options.invalidate : [options.invalidate];
+    prefixes.forEach(prefix => cache.invalidate(prefix, { prefix: true }));
+  }
+
+  return result;
+}
+
+/**
+ * Attach the client's access token and replay the request once after a 401 and token refresh
+ * @param url - URL to fetch from
+ * @param options - Optional request options
+ * @param context - Optional client state from createFetch
+ * @returns Promise resolving to parsed JSON data
+ */
+async function authorized<T>(
+  url: string,
+  options: RequestOptions | undefined,
+  context: RequestContext
+): Promise<T> {
+  const { auth } = context;
+  if (!auth) {
+    return queued<T>(url, options, context);
+  }
+
+  const withToken = (token: string | null | undefined): RequestOptions => {
+    if (!token) {
+      return { ...options };
+    }
+    const [name, value] = auth.header(token);
+    return { ...options, headers: { ...toHeaderRecord(options?.headers), [name]: value } };
+  };
+
+  const token = await auth.getToken();
   try {
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options?.headers,
-      },
+    return await queued<T>(url, withToken(token), context);
+  } catch (error) {
+    if (!(error instanceof HTTPError) || error.status !== 401) {
+      throw error;
+    }
+
+    try {
+      await auth.refresh(token);
+    } catch {
+      throw error;
+    }
+
+    try {
+      return await queued<T>(url, withToken(await auth.getToken()), context);
+    } catch (retryError) {
+      if (retryError instanceof HTTPError && retryError.status === 401) {
+        auth.expire(retryError);
+      }
+      throw retryError;
+    }
+  }
+}
+
+/**
+ * Run a request through the client's queue, if it has one
+ * @param url - URL to fetch from
+ * @param options - Optional request options
+ * @param context - Optional client state from createFetch
+ * @returns Promise resolving to parsed JSON data
+ * @throws AbortError if `options.signal` is aborted while the request waits
+ */
+async function queued<T>(
+  url: string,
+  options: RequestOptions | undefined,
+  context: RequestContext
+): Promise<T> {
+  const { queue } = context;
+  if (!queue) {
+    return perform<T>(url, options, context);
+  }
+
+  const signal = options?.signal;
+  try {
+    return await queue.schedule(() => perform<T>(url, options, context), {
+      priority: options?.queuePriority,
+      signal,
     });
-    
-    await handleResponse(response);
-    
-    // Handle 204 No Content
-    if (response.status === 204) {
-      return undefined as T;
+  } catch (error) {
+    throw signal?.aborted ? abortError(url, signal) : error;
+  }
+}
+
+/**
+ * Run client interceptors, the retry policy and the timeout around a single request
+ * @param url - URL to fetch from
+ * @param options - Optional request options
+ * @param context - Optional client state from createFetch
+ * @returns Promise resolving to parsed JSON data
+ */
+async function perform<T>(
+  url: string,
+  options: RequestOptions | undefined,
+  { interceptors, validators = sharedValidators }: RequestContext
+): Promise<T> {
+  const { signal, cleanup } = createRequestSignal(url, options?.signal, options?.timeout);
+  const method = (options?.method || 'GET').toUpperCase();
+  const conditional = !!options?.conditional && (method === 'GET' || method === 'HEAD');
+  const stored = validators.get(url);
+  const headers: Record<string, string> = {
+    // Raw bodies such as FormData carry their own content type
+    ...(isRawBody(options?.body) ? {} : { 'Content-Type': 'application/json' }),
+    ...toHeaderRecord(options?.headers),
+  };
+
+  if (conditional) {
+    addConditionalHeaders(headers, stored);
+  }
+  if (options?.ifMatch) {
+    const etag = options.ifMatch === true ? stored?.etag : options.ifMatch;
+    if (etag) {
+      headers['If-Match'] = etag;
     }
-    
-    return await response.json();
+  }
+
+  let config: RequestConfig = { ...options, url, signal, headers };
+  const startedAt = performance.now();
+  let response: Response | undefined;
+  let failure: unknown;
+
+  try {
+    if (interceptors) {
+      for (const interceptor of interceptors.request) {
+        config = await interceptor(config);
+      }
+    }
+
+    response = await sendWithRetry(config, interceptors);
+    if (options?.onDownloadProgress) {
+      response = trackDownload(response, options.onDownloadProgress);
+    }
+
+    if (response.status === 304 && conditional && stored) {
+      return stored.body as T;
+    }
+
+    let data: T = await parseResponse<T>(response, url, options?.responseType);
+    if (options?.validate) {
+      data = assertValid<T>(data, options.validate, url);
+    }
+    if (conditional) {
+      validators.store(url, response, data);
+    }
+    return data;
   } catch (error) {
-    if (error instanceof HTTPError) {
-      throw error;
+    let current = signal?.aborted ? abortError(url, signal) : error;
+
+    if (interceptors) {
+      for (const interceptor of interceptors.error) {
+        const replacement = await interceptor(current, config);
+        if (replacement !== undefined) {
+          current = replacement;
+        }
+      }
     }
-    console.error('[AckerJS HTTP] Fetch error:', error);
-    throw new Error(`Failed to fetch from ${url}: ${(error as Error).message}`);
+
+    failure = current;
+    throw current;
+  } finally {
+    cleanup();
+    reportMetrics(options?.onMetrics ?? settings.onMetrics, {
+      method,
+      url,
+      status: response?.status ?? (failure instanceof HTTPError ? failure.status : undefined),
+      duration: performance.now() - startedAt,
+      bytes: contentLength(response ?? (failure instanceof HTTPError ? failure : undefined)),
+      error: failure,
+    });
+  }
+}
+
+function contentLength(source: { headers: Headers } | undefined): number | undefined {
+  const length = source?.headers.get('content-length');
+  return length ? Number(length) : undefined;
+}
+
+function reportMetrics(onMetrics: ((metrics: RequestMetrics) => void) | undefined, metrics: RequestMetrics): void {
+  if (!onMetrics) {
+    return;
+  }
+  try {
+    onMetrics(metrics);
+  } catch (error) {
+    log.error('[AckerJS HTTP] Metrics hook failed:', error);
   }
 }
 
+/**
+ * Send a prepared request, retrying network failures and retryable statuses
+ * @param config - Request configuration after request interceptors
+ * @param interceptors - Optional interceptors from a createFetch client
+ * @returns Promise resolving to the final Response
+ * @throws HTTPError if the final response is not ok
+ */
+async function sendWithRetry(config: RequestConfig, interceptors?: Interceptors): Promise<Response> {
+  const {
+    url,
+    retry,
+    timeout: _timeout,
+    onUploadProgress,
+    onDownloadProgress: _onDownloadProgress,
+    onMetrics: _onMetrics,
+    fetch: customFetch,
+    ...init
+  } = config;
+  const transport = customFetch ?? settings.fetch;
+  const method = (init.method || 'GET').toUpperCase();
+  const policy = resolveRetry(retry);
+  const canRetry = (attempt: number) =>
+    policy !== null &&
+    attempt < policy.attempts &&
+    policy.methods.includes(method) &&
+    !init.signal?.aborted;
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+
+    try {
+      // Upload progress needs XMLHttpRequest, so it only applies to the default transport
+      response = transport
+        ? await transport(url, init)
+        : onUploadProgress
+          ? await fetchWithUploadProgress(url, init, onUploadProgress)
+          : await fetch(url, init);
+    } catch (error) {
+      // A missing mock route is a mistake in the test, not a flaky network
+      if (init.signal?.aborted || error instanceof UnmatchedRequestError) {
+        throw error;
+      }
+      if (canRetry(attempt)) {
+        log.debug(`[AckerJS HTTP] Retrying ${method} ${url} after network error (attempt ${attempt})`);
+        await sleep(retryDelay(attempt, policy!), init.signal);
+        continue;
+      }
+      log.error('[AckerJS HTTP] Fetch error:', error);
+      throw new NetworkError(url, method, error);
+    }
+
+    // Interceptor errors are the caller's own and must not look like network failures
+    if (interceptors) {
+      for (const interceptor of interceptors.response) {
+        response = await interceptor(response, config);
+      }
+    }
+
+    if (!response.ok && canRetry(attempt) && policy!.statusCodes.includes(response.status)) {
+      log.debug(`[AckerJS HTTP] Retrying ${method} ${url} after HTTP ${response.status} (attempt ${attempt})`);
+      await sleep(retryDelay(attempt, policy!, response), init.signal);
+      continue;
+    }
+
+    // 304 Not Modified answers a conditional request; the caller resolves the stored body
+    if (response.status !== 304) {
+      await handleResponse(response, method, url);
+    }
+    return response;
+  }
+}
+
+/**
+ * Read the body of a successful response
+ * @param response - Successful Response
+ * @param url - Request URL
+ * @param responseType - How to read the body (default: 'json')
+ * @returns Promise resolving to the parsed body
+ * @throws ParseError if the body cannot be read
+ */
+async function parseResponse<T>(
+  response: Response,
+  url: string,
+  responseType: ResponseType = 'json'
+): Promise<T> {
+  if (responseType === 'response') {
+    return response as T;
+  }
+
+  // Handle 204 No Content and bodiless 304 Not Modified
+  if (response.status === 204 || response.status === 304) {
+    return undefined as T;
+  }
+
+  try {
+    return (await readBody(response, responseType)) as T;
+  } catch (error) {
+    log.error('[AckerJS HTTP] Parse error:', error);
+    throw new ParseError(url, response.status, error);
+  }
+}
+
+/**
+ * Fetch JSON data from a URL with automatic error handling
+ * @param url - URL to fetch from
+ * @param options - Optional fetch options, including an opt-in retry policy and timeout
+ * @returns Promise resolving to parsed JSON data
+ * @throws HTTPError if request fails
+ * @throws NetworkError if the server cannot be reached
+ * @throws ParseError if the response body is not valid JSON
+ * @throws ValidationError if the response does not match `options.validate`
+ * @throws TimeoutError if the request exceeds `options.timeout`
+ * @throws AbortError if `options.signal` is aborted
+ * @example
+ * const data = await fetchJSON<User>('https://api.example.com/user/1');
+ * const report = await fetchJSON('/api/report', { retry: { attempts: 5 } });
+ * const me = await fetchJSON('/api/me', { validate: schema.object({ id: schema.number() }) });
+ * const csv = await fetchJSON<string>('/api/export.csv', { responseType: 'text' });
+ * const file = await fetchJSON<Blob>('/api/export.zip', {
+ *   responseType: 'blob',
+ *   onDownloadProgress: ({ percentage }) => console.log(`${percentage}%`),
+ * });
+ */
+export async function fetchJSON<T = any>(
+  url: string,
+  options?: RequestOptions<T>
+): Promise<T> {
+  return request<T>(url, options);
+}
+
 /**
  * Send a POST request with JSON data
  * @param url - URL to post to
- * @param data - Data to send (will be JSON stringified)
+ * @param data - Data to send (JSON stringified unless FormData, URLSearchParams, Blob, binary or a stream)
  * @param options - Optional fetch options
  * @returns Promise resolving to parsed JSON response
  * @throws HTTPError if request fails
  * @example
  * const result = await postJSON('/api/users', { name: 'John', email: 'john@example.com' });
+ * await postJSON('/api/avatar', formData); // sent as multipart, no JSON content type
+ * await postJSON('/api/upload', file, { onUploadProgress: ({ loaded }) => render(loaded) });
  */
 export async function postJSON<T = any>(
   url: string,
   data: any,
-  options?: RequestInit
+  options?: RequestOptions<T>
 ): Promise<T> {
-  return fetchJSON<T>(url, {
-    ...options,
-    method: 'POST',
-    body: JSON.stringify(data),
-    headers: {
-      'Content-Type': 'application/json',
-      ...options?.headers,
-    },
-  });
+  return request<T>(url, withBody('POST', data, options));
 }
 
 /**
  * Send a PUT request with JSON data
  * @param url - URL to put to
- * @param data - Data to send (will be JSON stringified)
+ * @param data - Data to send (JSON stringified unless FormData, URLSearchParams, Blob, binary or a stream)
  * @param options - Optional fetch options
  * @returns Promise resolving to parsed JSON response
  * @throws HTTPError if request fails
  * @example
  * const updated = await putJSON('/api/users/1', { name: 'Jane Doe' });
+ * // Optimistic concurrency: rejects with PreconditionFailedError if the resource changed
+ * await putJSON('/api/users/1', user, { ifMatch: '"v42"' });
  */
 export async function putJSON<T = any>(
   url: string,
   data: any,
-  options?: RequestInit
+  options?: RequestOptions<T>
 ): Promise<T> {
-  return fetchJSON<T>(url, {
-    ...options,
-    method: 'PUT',
-    body: JSON.stringify(data),
-    headers: {
-      'Content-Type': 'application/json',
-      ...options?.headers,
-    },
-  });
+  return request<T>(url, withBody('PUT', data, options));
 }
 
 /**
  * Send a PATCH request with JSON data
  * @param url - URL to patch
- * @param data - Data to send (will be JSON stringified)
+ * @param data - Data to send (JSON stringified unless FormData, URLSearchParams, Blob, binary or a stream)
  * @param options - Optional fetch options
  * @returns Promise resolving to parsed JSON response
  * @throws HTTPError if request fails
@@ -155,17 +673,9 @@ export async function putJSON<T = any>(
 export async function patchJSON<T = any>(
   url: string,
   data: any,
-  options?: RequestInit
+  options?: RequestOptions<T>
 ): Promise<T> {
-  return fetchJSON<T>(url, {
-    ...options,
-    method: 'PATCH',
-    body: JSON.stringify(data),
-    headers: {
-      'Content-Type': 'application/json',
-      ...options?.headers,
-    },
-  });
+  return request<T>(url, withBody('PATCH', data, options));
 }
 
 /**
@@ -179,7 +689,7 @@ export async function patchJSON<T = any>(
  */
 export async function deleteJSON<T = any>(
   url: string,
-  options?: RequestInit
+  options?: RequestOptions<T>
 ): Promise<T> {
   return fetchJSON<T>(url, {
     ...options,
@@ -198,7 +708,7 @@ export async function deleteJSON<T = any>(
  */
 export async function get<T = any>(
   url: string,
-  options?: RequestInit
+  options?: RequestOptions<T>
 ): Promise<T> {
   return fetchJSON<T>(url, { ...options, method: 'GET' });
 }
@@ -215,7 +725,7 @@ export async function get<T = any>(
 export async function post<T = any>(
   url: string,
   data: any,
-  options?: RequestInit
+  options?: RequestOptions<T>
 ): Promise<T> {
   return postJSON<T>(url, data, options);
 }
@@ -232,7 +742,7 @@ export async function post<T = any>(
 export async function put<T = any>(
   url: string,
   data: any,
-  options?: RequestInit
+  options?: RequestOptions<T>
 ): Promise<T> {
   return putJSON<T>(url, data, options);
 }
@@ -249,7 +759,7 @@ export async function put<T = any>(
 export async function patch<T = any>(
   url: string,
   data: any,
-  options?: RequestInit
+  options?: RequestOptions<T>
 ): Promise<T> {
   return patchJSON<T>(url, data, options);
 }
@@ -264,23 +774,210 @@ export async function patch<T = any>(
  */
 export async function del<T = any>(
   url: string,
-  options?: RequestInit
+  options?: RequestOptions<T>
 ): Promise<T> {
   return deleteJSON<T>(url, options);
 }
 
+/**
+ * Create a page loader that keeps response headers for pagination
+ * @param options - Request options shared by every page
+ * @param context - Optional client state from createFetch
+ * @returns Function loading one page URL
+ */
+function pageLoader(
+  options: RequestOptions = {},
+  context: RequestContext = {}
+): (url: string) => Promise<LoadedPage> {
+  const { validate, ...rest } = options;
+  // Pages are read as raw responses, which cannot be cached or revalidated
+  const pageOptions: RequestOptions = { ...rest, responseType: 'response', responseCache: false, conditional: false };
+
+  return async (url) => {
+    const response = await request<Response>(url, pageOptions, context);
+    let data = await parseResponse<unknown>(response, url);
+    if (validate) {
+      data = assertValid(data, validate, url);
+    }
+    return { data, headers: response.headers };
+  };
+}
+
+/**
+ * Iterate the pages of a paginated listing
+ * @param url - URL of the listing
+ * @param strategy - Link header, cursor, page or offset pagination
+ * @param options - Request options plus `maxPages`, `items` and `signal`
+ * @returns Async generator of pages
+ * @throws AbortError if `options.signal` is aborted between pages
+ * @example
+ * for await (const page of paginate('https://api.example.com/repos', { type: 'link' }, { maxPages: 5 })) {
+ *   render(page);
+ * }
+ */
+export function paginate<TPage = any>(
+  url: string,
+  strategy: PaginationStrategy<TPage>,
+  options?: RequestOptions<TPage> & PaginateOptions<TPage>
+): AsyncGenerator<TPage, void, undefined> {
+  return iteratePages<TPage>(url, strategy, pageLoader(options), options);
+}
+
+/**
+ * Iterate the items of every page of a paginated listing
+ * @param url - URL of the listing
+ * @param strategy - Link header, cursor, page or offset pagination
+ * @param options - Request options plus `maxPages`, `items` and `signal`
+ * @returns Async generator of items
+ * @example
+ * const cursor = { type: 'cursor', next: (page) => page.next_cursor } as const;
+ * for await (const user of paginateItems<User>('https://api.example.com/users', cursor)) {
+ *   console.log(user.name);
+ * }
+ */
+export async function* paginateItems<TItem = any, TPage = any>(
+  url: string,
+  strategy: PaginationStrategy<TPage>,
+  options?: RequestOptions<TPage> & PaginateOptions<TPage, TItem>
+): AsyncGenerator<TItem, void, undefined> {
+  const items = options?.items ?? defaultItems;
+  for await (const page of paginate<TPage>(url, strategy, options)) {
+    yield* items(page);
+  }
+}
+
+/**
+ * Open a Server-Sent Events stream over fetch
+ * @param url - Stream URL
+ * @param options - Request options, parsing and reconnection settings, and callbacks
+ * @returns EventStream usable with callbacks, `on()` listeners or `for await`
+ * @example
+ * const stream = eventStream<JobStatus>('/api/jobs/42/events', {
+ *   headers: { Authorization: `Bearer ${token}` },
+ *   json: true,
+ * });
+ * for await (const event of stream) {
+ *   if (event.data.done) stream.close();
+ * }
+ */
+export function eventStream<T = string>(url: string, options: EventStreamOptions<T> = {}): EventStream<T> {
+  return new EventStream<T>(url, { ...options, fetch: options.fetch ?? settings.fetch });
+}
+
+/**
+ * Execute a GraphQL operation with postJSON
+ * @param url - GraphQL endpoint
+ * @param operation - Query document, variables, operation name and persisted-query settings
+ * @param options - Request options
+ * @returns Promise resolving to the operation data
+ * @throws GraphQLError if the response contains errors; partial data is on `error.data`
+ * @example
+ * const { user } = await graphql<{ user: User }>('/graphql', {
+ *   query: 'query GetUser($id: ID!) { user(id: $id) { id name } }',
+ *   variables: { id: '42' },
+ *   operationName: 'GetUser',
+ *   persisted: true,
+ * });
+ */
+export function graphql<T = any, V = Record<string, unknown>>(
+  url: string,
+  operation: GraphQLRequest<V>,
+  options?: RequestOptions
+): Promise<T> {
+  return executeGraphQL<T, V>(postJSON, url, operation, options);
+}
+
+/**
+ * Execute several GraphQL operations in one request with postJSON
+ * @param url - GraphQL endpoint accepting batched (array) bodies
+ * @param operations - Operations to send
+ * @param options - Request options
+ * @returns Promise resolving to one settled result per operation, rejected entries holding a GraphQLError
+ * @example
+ * const [users, stats] = await graphqlBatch('/graphql', [{ query: '{ users { id } }' }, { query: '{ stats { total } }' }]);
+ * if (users.status === 'fulfilled') render(users.value);
+ */
+export function graphqlBatch(
+  url: string,
+  operations: GraphQLRequest<any>[],
+  options?: RequestOptions
+): Promise<PromiseSettledResult<any>[]> {
+  return executeGraphQLBatch(postJSON, url, operations, options);
+}
+
+/**
+ * Create a JSON-RPC 2.0 client that sends calls with postJSON
+ * @param url - JSON-RPC endpoint
+ * @param options - Request options plus batching and id generation settings
+ * @returns JsonRpcClient; calls made in the same tick are sent as one batch
+ * @example
+ * const rpc = jsonRpc('/rpc');
+ * const user = await rpc.call<User>('users.get', { id: 1 });
+ * rpc.notify('audit.log', ['viewed user 1']);
+ */
+export function jsonRpc(url: string, options?: JsonRpcOptions): JsonRpcClient {
+  return new JsonRpcClient(postJSON, url, options);
+}
+
+/**
+ * Invalidate responses cached by the standalone helpers
+ * @param url - URL or URL prefix
+ * @param options - Set `prefix` to invalidate every URL starting with `url`
+ * @example
+ * await post('/api/users', user);
+ * invalidateCache('/api/users', { prefix: true });
+ */
+export function invalidateCache(url: string, options?: { prefix?: boolean }): void {
+  sharedCache.invalidate(url, options);
+}
+
+/**
+ * Remove every response cached by the standalone helpers
+ */
+export function clearCache(): void {
+  sharedCache.clear();
+}
+
+/**
+ * Forget every ETag/Last-Modified validator remembered by the standalone helpers
+ */
+export function clearValidators(): void {
+  sharedValidators.clear();
+}
+
 /**
  * Create a configured fetch function with default options
  * @param baseURL - Base URL to prepend to all requests
- * @param defaultOptions - Default fetch options to merge with each request
- * @returns Configured fetch function
+ * @param clientOptions - Default request options (headers, retry policy, ...) to merge with each request,
+ * plus client-wide features such as `auth`
+ * @returns Configured fetch function with interceptors and its own response cache
  * @example
  * const api = createFetch('https://api.example.com', {
- *   headers: { 'Authorization': 'Bearer token' }
+ *   headers: { 'Accept-Language': 'en' },
+ *   auth: { getToken: () => session.token, refreshToken: () => session.refresh() },
+ *   queue: { concurrency: 6, rateLimit: { requests: 20, interval: 1000 } },
+ * });
+ * api.onAuthExpired(() => router.navigate('/login'));
+ * api.interceptors.request.use((config) => {
+ *   config.headers['X-Correlation-ID'] = crypto.randomUUID();
+ *   return config;
  * });
  * const data = await api.get('/users');
  */
-export function createFetch(baseURL: string, defaultOptions?: RequestInit) {
+export function createFetch(baseURL: string, clientOptions?: ClientOptions) {
+  const {
+    auth: authProvider,
+    queue: queueOptions,
+    offline: offlineOptions,
+    ...defaultOptions
+  } = clientOptions ?? {};
+  const interceptors = createInterceptors();
+  const cache = new ResponseCache();
+  const validators = new ValidatorStore();
+  const auth = authProvider ? new AuthManager(authProvider) : undefined;
+  const queue = queueOptions ? new RequestQueue(queueOptions) : undefined;
+  const context: RequestContext = { interceptors, cache, validators, auth, queue };
+
   const mergeURL = (url: string) => {
     if (url.startsWith('http://') || url.startsWith('https://')) {
       return url;
@@ -290,81 +987,151 @@ export function createFetch(baseURL: string, defaultOptions?: RequestInit) {
     return `${base}${path}`;
   };
 
-  const mergeOptions = (options?: RequestInit): RequestInit => ({
-    ...defaultOptions,
-    ...options,
-    headers: {
-      ...defaultOptions?.headers,
-      ...options?.headers,
-    },
-  });
+  const mergeOptions = <O extends RequestOptions>(options?: O): O => {
+    const merged = {
+      ...defaultOptions,
+      ...options,
+      headers: {
+        ...toHeaderRecord(defaultOptions.headers),
+        ...toHeaderRecord(options?.headers),
+      },
+    } as O;
+    if (merged.invalidate) {
+      merged.invalidate = ([] as string[]).concat(merged.invalidate).map(mergeURL);
+    }
+    return merged;
+  };
+
+  const send = <T = any>(method: MutationMethod, url: string, data: any, options?: RequestOptions<T>) =>
+    request<T>(
+      mergeURL(url),
+      method === 'DELETE' ? { ...mergeOptions(options), method } : withBody(method, data, mergeOptions(options)),
+      context
+    );
+
+  const post: PostFunction = <T = any>(url: string, data: any, options?: RequestOptions<T>) =>
+    send<T>('POST', url, data, options);
+
+  const offline = offlineOptions
+    ? new OfflineQueue(
+        (mutation: QueuedMutation) => send(mutation.method, mutation.url, mutation.data, {
+          headers: mutation.headers,
+          ifMatch: mutation.ifMatch,
+          invalidate: mutation.invalidate,
+        }),
+        offlineOptions
+      )
+    : undefined;
+
+  // Mutations are queued while offline unless their body cannot be stored
+  const mutate = <T = any>(method: MutationMethod, url: string, data: any, options?: RequestOptions<T>) => {
+    if (!offline || isRawBody(data)) {
+      return send<T>(method, url, data, options);
+    }
+    return offline.run<T>(
+      {
+        method,
+        url,
+        data,
+        headers: toHeaderRecord(options?.headers),
+        ifMatch: typeof options?.ifMatch === 'string' ? options.ifMatch : undefined,
+        invalidate: options?.invalidate,
+      },
+      () => send<T>(method, url, data, options)
+    );
+  };
 
   return {
-    get: <T = any>(url: string, options?: RequestInit) =>
-      get<T>(mergeURL(url), mergeOptions(options)),
+    interceptors,
+    cache,
+    validators,
+    queue,
+    offline,
+
+    /**
+     * Listen for session expiry when the auth provider cannot refresh the token
+     * @param listener - Called with the refresh failure or final 401 error
+     * @returns Function that removes the listener
+     */
+    onAuthExpired: (listener: AuthExpiredListener): (() => void) =>
+      auth ? auth.onExpired(listener) : () => {},
+
+    /**
+     * Invalidate cached GET responses of this client
+     * @param url - URL or URL prefix, relative to the base URL
+     * @param options - Set `prefix` to invalidate every URL starting with `url`
+     */
+    invalidate: (url: string, options?: { prefix?: boolean }) =>
+      cache.invalidate(mergeURL(url), options),
+
+    get: <T = any>(url: string, options?: RequestOptions<T>) =>
+      request<T>(mergeURL(url), { ...mergeOptions(options), method: 'GET' }, context),
     
-    post: <T = any>(url: string, data: any, options?: RequestInit) =>
-      post<T>(mergeURL(url), data, mergeOptions(options)),
+    post: <T = any>(url: string, data: any, options?: RequestOptions<T>) =>
+      mutate<T>('POST', url, data, options),
     
-    put: <T = any>(url: string, data: any, options?: RequestInit) =>
-      put<T>(mergeURL(url), data, mergeOptions(options)),
+    put: <T = any>(url: string, data: any, options?: RequestOptions<T>) =>
+      mutate<T>('PUT', url, data, options),
     
-    patch: <T = any>(url: string, data: any, options?: RequestInit) =>
-      patch<T>(mergeURL(url), data, mergeOptions(options)),
+    patch: <T = any>(url: string, data: any, options?: RequestOptions<T>) =>
+      mutate<T>('PATCH', url, data, options),
     
-    delete: <T = any>(url: string, options?: RequestInit) =>
-      del<T>(mergeURL(url), mergeOptions(options)),
+    delete: <T = any>(url: string, options?: RequestOptions<T>) =>
+      mutate<T>('DELETE', url, undefined, options),
     
-    fetchJSON: <T = any>(url: string, options?: RequestInit) =>
-      fetchJSON<T>(mergeURL(url), mergeOptions(options)),
-  };
-}
+    fetchJSON: <T = any>(url: string, options?: RequestOptions<T>) =>
+      request<T>(mergeURL(url), mergeOptions(options), context),
 
-/**
- * Build a URL with query parameters
- * @param baseURL - Base URL
- * @param params - Object containing query parameters
- * @returns URL string with encoded query parameters
- * @example
- * const url = buildURL('https://api.example.com/search', { q: 'test', limit: 10 });
- * // Returns: 'https://api.example.com/search?q=test&limit=10'
- */
-export function buildURL(baseURL: string, params: Record<string, any>): string {
-  const url = new URL(baseURL);
-  
-  Object.entries(params).forEach(([key, value]) => {
-    if (value !== null && value !== undefined) {
-      if (Array.isArray(value)) {
-        value.forEach(v => url.searchParams.append(key, String(v)));
-      } else {
-        url.searchParams.append(key, String(value));
+    /**
+     * Execute a GraphQL operation against an endpoint relative to the base URL
+     * @throws GraphQLError if the response contains errors
+     */
+    graphql: <T = any, V = Record<string, unknown>>(url: string, operation: GraphQLRequest<V>, options?: RequestOptions) =>
+      executeGraphQL<T, V>(post, url, operation, options),
+
+    /**
+     * Execute several GraphQL operations in one batched request
+     */
+    graphqlBatch: (url: string, operations: GraphQLRequest<any>[], options?: RequestOptions) =>
+      executeGraphQLBatch(post, url, operations, options),
+
+    /**
+     * Create a JSON-RPC 2.0 client for an endpoint relative to the base URL
+     */
+    jsonRpc: (url: string, options?: JsonRpcOptions) => new JsonRpcClient(post, url, options),
+
+    eventStream: <E = string>(url: string, options: EventStreamOptions<E> = {}) =>
+      eventStream<E>(mergeURL(url), {
+        ...options,
+        fetch: options.fetch ?? defaultOptions.fetch,
+        headers: { ...toHeaderRecord(defaultOptions.headers), ...toHeaderRecord(options.headers) },
+      }),
+
+    paginate: <TPage = any>(
+      url: string,
+      strategy: PaginationStrategy<TPage>,
+      options?: RequestOptions<TPage> & PaginateOptions<TPage>
+    ) => {
+      const merged = mergeOptions(options);
+      return iteratePages<TPage>(mergeURL(url), strategy, pageLoader(merged, context), merged);
+    },
+
+    paginateItems: async function* <TItem = any, TPage = any>(
+      url: string,
+      strategy: PaginationStrategy<TPage>,
+      options?: RequestOptions<TPage> & PaginateOptions<TPage, TItem>
+    ): AsyncGenerator<TItem, void, undefined> {
+      const merged = mergeOptions(options);
+      const items = options?.items ?? defaultItems;
+      const pages = iteratePages<TPage>(mergeURL(url), strategy, pageLoader(merged, context), merged);
+      for await (const page of pages) {
+        yield* items(page);
       }
-    }
-  });
-  
-  return url.toString();
+    },
+  };
 }
 
 /**
- * Parse query parameters from a URL string
- * @param url - URL string to parse
- * @returns Object containing parsed query parameters
- * @example
- * const params = parseURL('https://api.example.com/search?q=test&limit=10');
- * // Returns: { q: 'test', limit: '10' }
+ * Client returned by createFetch
  */
-export function parseURL(url: string): Record<string, string> {
-  try {
-    const urlObj = new URL(url);
-    const params: Record<string, string> = {};
-    
-    urlObj.searchParams.forEach((value, key) => {
-      params[key] = value;
-    });
-    
-    return params;
-  } catch (error) {
-    console.error('[AckerJS HTTP] Invalid URL for parsing:', url);
-    return {};
-  }
-}
+export type FetchClient = ReturnType<typeof createFetch>;
@@ -0,0 +1,107 @@
+/**
+ * Interceptor pipeline for AckerJS HTTP clients
+ * Allows request, response and error hooks to run around every request
+ */
+
+import type { RequestOptions } from './types.js';
+
+/**
+ * Request configuration passed through request interceptors
+ */
+export interface RequestConfig extends RequestOptions {
+  url: string;
+  headers: Record<string, string>;
+}
+
+export type RequestInterceptor = (
+  config: RequestConfig
+) => RequestConfig | Promise<RequestConfig>;
+
+export type ResponseInterceptor = (
+  response: Response,
+  config: RequestConfig
+) => Response | Promise<Response>;
+
+/**
+ * Error interceptors may return a replacement error; returning undefined keeps the current one
+ */
+export type ErrorInterceptor = (
+  error: unknown,
+  config: RequestConfig
+) => unknown | Promise<unknown>;
+
+/**
+ * Ordered list of interceptors of a single kind
+ * @example
+ * const remove = client.interceptors.request.use((config) => {
+ *   config.headers['X-Request-ID'] = crypto.randomUUID();
+ *   return config;
+ * });
+ * remove();
+ */
+export class InterceptorManager<T extends (...args: any[]) => any> {
+  private handlers: T[] = [];
+
+  /**
+   * Add an interceptor to the end of the chain
+   * @param handler - Interceptor function
+   * @returns Function that removes the interceptor
+   */
+  use(handler: T): () => void {
+    this.handlers.push(handler);
+    return () => this.eject(handler);
+  }
+
+  /**
+   * Remove a previously added interceptor
+   * @param handler - Interceptor function to remove
+   */
+  eject(handler: T): void {
+    const index = this.handlers.indexOf(handler);
+    if (index !== -1) {
+      this.handlers.splice(index, 1);
+    }
+  }
+
+  /**
+   * Remove all interceptors
+   */
+  clear(): void {
+    this.handlers = [];
+  }
+
+  /**
+   * Number of registered interceptors
+   */
+  get size(): number {
+    return this.handlers.length;
+  }
+
+  /**
+   * Iterate over a snapshot of the interceptors so handlers can eject themselves
+   */
+  [Symbol.iterator](): Iterator<T> {
+    return this.handlers.slice()[Symbol.iterator]();
+  }
+}
+
+/**
+ * Set of interceptors attached to a createFetch client
+ */
+export interface Interceptors {
+  request: InterceptorManager<RequestInterceptor>;
+  response: InterceptorManager<ResponseInterceptor>;
+  error: InterceptorManager<ErrorInterceptor>;
+}
+
+/**
+ * Create an empty interceptor set
+ * @returns Interceptors with empty request, response and error chains
+ */
+export function createInterceptors(): Interceptors {
+  return {
+    request: new InterceptorManager<RequestInterceptor>(),
+    response: new InterceptorManager<ResponseInterceptor>(),
+    error: new InterceptorManager<ErrorInterceptor>(),
+  };
+}
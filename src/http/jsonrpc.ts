@@ -0,0 +1,180 @@
+/**
+ * JSON-RPC 2.0 client for AckerJS
+ * Sends calls through the JSON POST helpers and batches calls made in the same tick
+ */
+
+import { HTTPError, JsonRpcError } from './errors.js';
+import type { PostFunction } from './graphql.js';
+import type { RequestOptions } from './types.js';
+
+export type JsonRpcId = string | number;
+
+export type JsonRpcParams = unknown[] | Record<string, unknown>;
+
+/**
+ * JSON-RPC 2.0 request object; notifications carry no `id`
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  method: string;
+  params?: JsonRpcParams;
+  id?: JsonRpcId;
+}
+
+/**
+ * JSON-RPC 2.0 response object
+ */
+export interface JsonRpcResponse<T = any> {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  result?: T;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Options for jsonRpc clients
+ */
+export interface JsonRpcOptions extends RequestOptions {
+  /** Send calls made in the same tick as one array request (default: true) */
+  batch?: boolean;
+  /** Maximum number of calls per batched request (default: unlimited) */
+  maxBatchSize?: number;
+  /** Request id generator (default: incrementing numbers) */
+  generateId?: () => JsonRpcId;
+}
+
+function isResponseBody(value: any): value is JsonRpcResponse | JsonRpcResponse[] {
+  return (Array.isArray(value) ? value[0] : value)?.jsonrpc === '2.0';
+}
+
+interface PendingCall {
+  request: JsonRpcRequest;
+  resolve: (result: any) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * JSON-RPC 2.0 client bound to one endpoint
+ * @example
+ * const rpc = jsonRpc('/rpc');
+ * const [user, count] = await Promise.all([rpc.call('users.get', { id: 1 }), rpc.call('users.count')]);
+ * // Both calls were sent as one batched request
+ */
+export class JsonRpcClient {
+  private queued: PendingCall[] = [];
+  private scheduled = false;
+  private sequence = 0;
+
+  constructor(
+    private post: PostFunction,
+    private url: string,
+    private options: JsonRpcOptions = {}
+  ) {}
+
+  /**
+   * Call a remote method
+   * @param method - Method name
+   * @param params - Positional or named parameters
+   * @returns Promise resolving to the call result
+   * @throws JsonRpcError if the call returns an error object
+   */
+  call<T = any>(method: string, params?: JsonRpcParams): Promise<T> {
+    const id = this.options.generateId?.() ?? ++this.sequence;
+    return this.enqueue<T>({ jsonrpc: '2.0', method, ...(params !== undefined ? { params } : {}), id });
+  }
+
+  /**
+   * Send a notification; the server sends no result
+   * @param method - Method name
+   * @param params - Positional or named parameters
+   * @returns Promise resolving once the request has been delivered
+   */
+  notify(method: string, params?: JsonRpcParams): Promise<void> {
+    return this.enqueue<void>({ jsonrpc: '2.0', method, ...(params !== undefined ? { params } : {}) });
+  }
+
+  private enqueue<T>(request: JsonRpcRequest): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queued.push({ request, resolve, reject });
+
+      if (this.options.batch === false) {
+        this.flush();
+      } else if (!this.scheduled) {
+        this.scheduled = true;
+        queueMicrotask(() => this.flush());
+      }
+    });
+  }
+
+  private flush(): void {
+    this.scheduled = false;
+    const calls = this.queued.splice(0);
+    const size = this.options.maxBatchSize ?? Infinity;
+
+    for (let start = 0; start < calls.length; start += size) {
+      this.send(calls.slice(start, start + size));
+    }
+  }
+
+  private async send(calls: PendingCall[]): Promise<void> {
+    const {
+      batch: _batch,
+      maxBatchSize: _maxBatchSize,
+      generateId: _generateId,
+      ...requestOptions
+    } = this.options;
+    const body = calls.length === 1 ? calls[0].request : calls.map(call => call.request);
+    // Notification-only requests may get an empty response
+    const expectsReply = calls.some(call => call.request.id !== undefined);
+
+    let reply: JsonRpcResponse | JsonRpcResponse[] | undefined;
+    try {
+      reply = await this.post<any>(this.url, body, {
+        ...requestOptions,
+        ...(expectsReply ? {} : { responseType: 'text' }),
+      });
+    } catch (error) {
+      // Some servers answer call errors with an HTTP error status and a JSON-RPC body
+      const errorBody = error instanceof HTTPError ? error.body : undefined;
+      if (expectsReply && isResponseBody(errorBody)) {
+        reply = errorBody;
+      } else {
+        calls.forEach(call => call.reject(error));
+        return;
+      }
+    }
+
+    try {
+      this.settle(calls, expectsReply ? ([] as unknown[]).concat(reply ?? []) : []);
+    } catch (error) {
+      // Calls already settled ignore the rejection; the rest must not hang
+      calls.forEach(call => call.reject(error));
+    }
+  }
+
+  private settle(calls: PendingCall[], entries: unknown[]): void {
+    // Malformed batch entries (null, numbers, strings) cannot be matched to a call
+    const responses = entries.filter(
+      (entry): entry is JsonRpcResponse => typeof entry === 'object' && entry !== null
+    );
+    const byId = new Map(responses.map(response => [response.id, response]));
+
+    calls.forEach(call => {
+      const { id, method } = call.request;
+      if (id === undefined) {
+        call.resolve(undefined);
+        return;
+      }
+
+      // An error without an id (e.g. a parse error) applies to the whole request
+      const response = byId.get(id) ?? byId.get(null);
+      if (!response) {
+        call.reject(new JsonRpcError(-32603, `No response for JSON-RPC call ${method} (id ${id})`, undefined, method));
+      } else if (response.error) {
+        call.reject(new JsonRpcError(response.error.code, response.error.message, response.error.data, method));
+      } else {
+        call.resolve(response.result);
+      }
+    });
+  }
+}
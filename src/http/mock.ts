@@ -0,0 +1,240 @@
+/**
+ * Mock transport for testing code that uses AckerJS HTTP helpers
+ * Matches routes by method and URL pattern and records every call
+ */
+
+import { UnmatchedRequestError } from './errors.js';
+import { sleep } from './retry.js';
+import type { FetchFunction } from './types.js';
+
+/**
+ * Canned response returned by a mock route
+ */
+export interface MockResponse {
+  /** Status code (default: 200) */
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  /** Response body; objects are JSON encoded */
+  body?: unknown;
+  /** Delay in milliseconds before responding */
+  delay?: number;
+  /** Reject like fetch does on network failure instead of responding */
+  networkError?: boolean;
+}
+
+/**
+ * Request recorded by the mock transport
+ */
+export interface MockCall {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Request body; JSON strings are parsed */
+  body: unknown;
+  /** Path parameters captured by the matching route */
+  params: Record<string, string>;
+}
+
+export type MockHandler = (call: MockCall) => MockResponse | Promise<MockResponse>;
+
+interface MockRoute {
+  method: string;
+  matcher: (url: URL) => Record<string, string> | null;
+  response: MockResponse | MockHandler;
+}
+
+/**
+ * Build a matcher for a route pattern
+ * @param pattern - Path such as `/users/:id` or `/files/*`, a full URL pattern, or a RegExp
+ * @returns Function returning captured params, or null when the URL does not match
+ */
+function createMatcher(pattern: string | RegExp): MockRoute['matcher'] {
+  if (pattern instanceof RegExp) {
+    return (url) => {
+      const match = pattern.exec(url.href) || pattern.exec(url.pathname);
+      return match ? { ...match.groups } : null;
+    };
+  }
+
+  const absolute = /^https?:\/\//.test(pattern);
+  const names: string[] = [];
+  const source = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/:(\w+)/g, (_match, name: string) => {
+      names.push(name);
+      return '([^/]+)';
+    });
+  const regex = new RegExp(`^${source}$`);
+
+  return (url) => {
+    const match = regex.exec(absolute ? `${url.origin}${url.pathname}` : url.pathname);
+    if (!match) {
+      return null;
+    }
+    const params: Record<string, string> = {};
+    names.forEach((name, index) => {
+      params[name] = decodeURIComponent(match[index + 1]);
+    });
+    return params;
+  };
+}
+
+function readRequestBody(body: BodyInit | null | undefined): unknown {
+  if (typeof body !== 'string') {
+    return body ?? undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * fetch implementation backed by canned routes
+ * @example
+ * const mock = new MockTransport()
+ *   .on('GET', '/users/:id', ({ params }) => ({ body: { id: Number(params.id) } }))
+ *   .on('POST', '/users', { status: 201, body: { id: 2 } });
+ *
+ * const api = createFetch('https://api.example.com', { fetch: mock.fetch });
+ * await api.get('/users/1');
+ * mock.calls[0].url; // 'https://api.example.com/users/1'
+ */
+export class MockTransport {
+  /** Every request received, in order */
+  readonly calls: MockCall[] = [];
+  private routes: MockRoute[] = [];
+
+  /**
+   * Register a route; the first matching route answers
+   * @param method - HTTP method, or '*' for any
+   * @param pattern - Path pattern, full URL pattern or RegExp
+   * @param response - Canned response or handler
+   * @returns The transport, for chaining
+   */
+  on(method: string, pattern: string | RegExp, response: MockResponse | MockHandler): this {
+    this.routes.push({ method: method.toUpperCase(), matcher: createMatcher(pattern), response });
+    return this;
+  }
+
+  /**
+   * Register a GET route
+   */
+  get(pattern: string | RegExp, response: MockResponse | MockHandler): this {
+    return this.on('GET', pattern, response);
+  }
+
+  /**
+   * Register a POST route
+   */
+  post(pattern: string | RegExp, response: MockResponse | MockHandler): this {
+    return this.on('POST', pattern, response);
+  }
+
+  /**
+   * Register a PUT route
+   */
+  put(pattern: string | RegExp, response: MockResponse | MockHandler): this {
+    return this.on('PUT', pattern, response);
+  }
+
+  /**
+   * Register a PATCH route
+   */
+  patch(pattern: string | RegExp, response: MockResponse | MockHandler): this {
+    return this.on('PATCH', pattern, response);
+  }
+
+  /**
+   * Register a DELETE route
+   */
+  delete(pattern: string | RegExp, response: MockResponse | MockHandler): this {
+    return this.on('DELETE', pattern, response);
+  }
+
+  /**
+   * Calls recorded for a method and URL pattern
+   * @param method - HTTP method, or '*' for any
+   * @param pattern - Path pattern, full URL pattern or RegExp
+   */
+  callsTo(method: string, pattern: string | RegExp): MockCall[] {
+    const matcher = createMatcher(pattern);
+    const upper = method.toUpperCase();
+    return this.calls.filter(call =>
+      (upper === '*' || call.method === upper) && matcher(new URL(call.url, 'http://localhost')) !== null
+    );
+  }
+
+  /**
+   * Remove all routes and recorded calls
+   */
+  reset(): void {
+    this.routes = [];
+    this.calls.length = 0;
+  }
+
+  /**
+   * fetch-compatible function to pass as the `fetch` option or to `configure()`.
+   * Rejects when no route matches the request.
+   */
+  readonly fetch: FetchFunction = async (input, init = {}) => {
+    const method = (init.method || 'GET').toUpperCase();
+    const href = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const url = new URL(href, 'http://localhost');
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    const call: MockCall = { method, url: href, headers, body: readRequestBody(init.body), params: {} };
+    this.calls.push(call);
+
+    for (const route of this.routes) {
+      if (route.method !== '*' && route.method !== method) {
+        continue;
+      }
+      const params = route.matcher(url);
+      if (!params) {
+        continue;
+      }
+
+      call.params = params;
+      const mock = typeof route.response === 'function' ? await route.response(call) : route.response;
+
+      if (mock.delay) {
+        await sleep(mock.delay, init.signal);
+      }
+      if (init.signal?.aborted) {
+        throw init.signal.reason;
+      }
+      if (mock.networkError) {
+        throw new TypeError(`Mock network error for ${method} ${href}`);
+      }
+      return toResponse(mock);
+    }
+
+    throw new UnmatchedRequestError(method, href);
+  };
+}
+
+function toResponse(mock: MockResponse): Response {
+  const status = mock.status ?? 200;
+  const headers = new Headers(mock.headers);
+  let body: BodyInit | null = null;
+
+  if (mock.body !== undefined && status !== 204 && status !== 304) {
+    if (typeof mock.body === 'string' || mock.body instanceof Blob || mock.body instanceof ArrayBuffer) {
+      body = mock.body;
+    } else {
+      body = JSON.stringify(mock.body);
+      if (!headers.has('content-type')) {
+        headers.set('content-type', 'application/json');
+      }
+    }
+  }
+
+  return new Response(body, { status, statusText: mock.statusText, headers });
+}
@@ -0,0 +1,418 @@
+/**
+ * Offline mutation queue for createFetch clients
+ * Persists failed POST/PUT/PATCH/DELETE requests and replays them in order once back online
+ */
+
+import { log } from '../logger.js';
+import { HTTPError, NetworkError, OfflineQueuedError, TimeoutError } from './errors.js';
+
+export type MutationMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * A mutation waiting to be replayed
+ */
+export interface QueuedMutation {
+  id: string;
+  method: MutationMethod;
+  /** URL relative to the client base URL, as passed to the helper */
+  url: string;
+  /** JSON-serializable request data */
+  data?: unknown;
+  headers?: Record<string, string>;
+  ifMatch?: string;
+  invalidate?: string | string[];
+  createdAt: number;
+  /** Replay attempts so far */
+  attempts: number;
+}
+
+/**
+ * Storage backend for queued mutations
+ */
+export interface OfflineStorage {
+  load(): QueuedMutation[] | Promise<QueuedMutation[]>;
+  save(mutations: QueuedMutation[]): void | Promise<void>;
+}
+
+/**
+ * Queue state reported to status listeners
+ */
+export interface OfflineStatus {
+  online: boolean;
+  /** Number of queued mutations */
+  pending: number;
+  replaying: boolean;
+}
+
+/**
+ * What to do with a mutation the server rejected during replay
+ * - `discard` drop it and continue (default)
+ * - `keep` leave it at the head of the queue and stop replaying until the next `online` event or `replay()` call
+ */
+export type ConflictResolution = 'discard' | 'keep';
+
+/**
+ * Offline mode configuration
+ */
+export interface OfflineOptions {
+  /** Where queued mutations are kept (default: memoryStorage()) */
+  storage?: OfflineStorage;
+  /** Decide whether a failed request is queued (default: NetworkError only) */
+  shouldQueue?: (error: unknown) => boolean;
+  /**
+   * Replay when the browser fires `online`, after loading stored mutations, and with backoff
+   * while requests fail even though the browser reports being online (default: true)
+   */
+  autoReplay?: boolean;
+  /** Called whenever the online state, queue length or replay state changes */
+  onStatusChange?: (status: OfflineStatus) => void;
+  /** Called when a replayed mutation is rejected with 409 Conflict or 412 Precondition Failed */
+  onConflict?: (mutation: QueuedMutation, error: HTTPError) => ConflictResolution | Promise<ConflictResolution>;
+  /** Called when a replayed mutation fails with another client error and is dropped */
+  onDiscard?: (mutation: QueuedMutation, error: unknown) => void;
+}
+
+/**
+ * Keep queued mutations in memory; they are lost on reload
+ */
+export function memoryStorage(): OfflineStorage {
+  let stored: QueuedMutation[] = [];
+  return {
+    load: () => stored.slice(),
+    save: (mutations) => {
+      stored = mutations.slice();
+    },
+  };
+}
+
+/**
+ * Keep queued mutations in localStorage
+ * @param key - Storage key (default: 'ackerjs:offline-queue')
+ */
+export function localStorageStorage(key = 'ackerjs:offline-queue'): OfflineStorage {
+  return {
+    load: () => {
+      try {
+        return JSON.parse(localStorage.getItem(key) || '[]');
+      } catch (error) {
+        log.error('[AckerJS HTTP] Could not read offline queue:', error);
+        return [];
+      }
+    },
+    save: (mutations) => {
+      if (mutations.length === 0) {
+        localStorage.removeItem(key);
+      } else {
+        localStorage.setItem(key, JSON.stringify(mutations));
+      }
+    },
+  };
+}
+
+/**
+ * Keep queued mutations in IndexedDB
+ * @param databaseName - Database name (default: 'ackerjs')
+ * @param storeName - Object store name (default: 'offline-queue')
+ */
+export function indexedDBStorage(databaseName = 'ackerjs', storeName = 'offline-queue'): OfflineStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return database;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = action(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    load: async () => (await run<QueuedMutation[] | undefined>('readonly', store => store.get('mutations'))) ?? [],
+    save: async (mutations) => {
+      await run('readwrite', store => store.put(mutations, 'mutations'));
+    },
+  };
+}
+
+// Backoff for replays scheduled after failures the browser did not report as offline
+const RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60000;
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * Persistent, ordered queue of mutations made while offline
+ */
+export class OfflineQueue {
+  /** Resolves once stored mutations have been loaded */
+  readonly ready: Promise<void>;
+
+  private mutations: QueuedMutation[] = [];
+  private replaying: Promise<void> | null = null;
+  private online = isOnline();
+  private sequence = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = 0;
+  // Set while a conflict resolved as `keep` holds the head of the queue
+  private blocked = false;
+  private storage: OfflineStorage;
+  private removeListeners: () => void = () => {};
+
+  constructor(
+    private send: (mutation: QueuedMutation) => Promise<unknown>,
+    private options: OfflineOptions = {}
+  ) {
+    this.storage = options.storage ?? memoryStorage();
+    this.ready = Promise.resolve(this.storage.load()).then(
+      (mutations) => {
+        this.mutations = mutations;
+      },
+      (error) => {
+        log.error('[AckerJS HTTP] Could not load offline queue:', error);
+      }
+    );
+
+    if (typeof addEventListener === 'function') {
+      const onOnline = () => this.setOnline(true);
+      const onOffline = () => this.setOnline(false);
+      addEventListener('online', onOnline);
+      addEventListener('offline', onOffline);
+      this.removeListeners = () => {
+        removeEventListener('online', onOnline);
+        removeEventListener('offline', onOffline);
+      };
+    }
+
+    if (options.autoReplay !== false) {
+      this.ready.then(() => this.autoReplay());
+    }
+  }
+
+  /** Current queue state */
+  get status(): OfflineStatus {
+    return { online: this.online, pending: this.mutations.length, replaying: this.replaying !== null };
+  }
+
+  /** Copy of the queued mutations, oldest first */
+  get pending(): QueuedMutation[] {
+    return this.mutations.slice();
+  }
+
+  /**
+   * Send a mutation, or queue it when offline or when it fails with a queueable error.
+   * Mutations are queued without sending while earlier ones are waiting, to keep them in order.
+   * @param entry - Mutation to send
+   * @param send - Function performing the request
+   * @returns Promise resolving to the response data
+   * @throws OfflineQueuedError if the mutation was queued
+   */
+  async run<T>(
+    entry: Omit<QueuedMutation, 'id' | 'createdAt' | 'attempts'>,
+    send: () => Promise<T>
+  ): Promise<T> {
+    await this.ready;
+
+    // Earlier mutations go first; a new request is a good moment to retry them
+    if (this.online && this.mutations.length > 0 && !this.replaying && !this.blocked && this.options.autoReplay !== false) {
+      await this.autoReplay();
+    }
+
+    let failure: unknown;
+    if (this.online && this.mutations.length === 0) {
+      try {
+        return await send();
+      } catch (error) {
+        const shouldQueue = this.options.shouldQueue ?? ((reason: unknown) => reason instanceof NetworkError);
+        if (!shouldQueue(error)) {
+          throw error;
+        }
+        failure = error;
+      }
+    }
+
+    const mutation: QueuedMutation = {
+      ...entry,
+      id: `${Date.now().toString(36)}-${++this.sequence}`,
+      createdAt: Date.now(),
+      attempts: 0,
+    };
+    this.mutations.push(mutation);
+    await this.persist();
+
+    // Without an `offline` event nothing else would ever replay the queue
+    if (failure !== undefined && this.online && !this.replaying) {
+      this.scheduleReplay();
+    }
+    throw new OfflineQueuedError(mutation, failure);
+  }
+
+  /**
+   * Replay queued mutations in order, stopping at the first one that cannot be delivered
+   * @returns Promise resolving when replay stops
+   */
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      this.cancelScheduledReplay();
+      this.replaying = this.drain()
+        .then(stalled => {
+          // Only failures that may pass later are retried; a kept conflict waits for the next trigger
+          if (this.mutations.length === 0) {
+            this.retryDelay = 0;
+          } else if (stalled && this.online) {
+            this.scheduleReplay();
+          }
+        })
+        .finally(() => {
+          this.replaying = null;
+          this.notify();
+        });
+      this.notify();
+    }
+    return this.replaying;
+  }
+
+  /**
+   * Drop every queued mutation
+   */
+  async clear(): Promise<void> {
+    this.mutations = [];
+    this.blocked = false;
+    await this.persist();
+  }
+
+  /**
+   * Stop listening for online/offline events
+   */
+  dispose(): void {
+    this.removeListeners();
+    this.cancelScheduledReplay();
+  }
+
+  private setOnline(online: boolean): void {
+    this.online = online;
+    this.retryDelay = 0;
+    if (!online) {
+      this.cancelScheduledReplay();
+    }
+    this.notify();
+    if (online && this.options.autoReplay !== false) {
+      this.autoReplay();
+    }
+  }
+
+  /**
+   * Retry the queue after a delay that doubles with every failed replay
+   */
+  private scheduleReplay(): void {
+    if (this.retryTimer || this.options.autoReplay === false) {
+      return;
+    }
+    this.retryDelay = this.retryDelay ? Math.min(this.retryDelay * 2, MAX_RETRY_DELAY) : RETRY_DELAY;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.online) {
+        this.autoReplay();
+      }
+    }, this.retryDelay);
+  }
+
+  private cancelScheduledReplay(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Replay on the queue's own initiative; failing callbacks are logged since nobody awaits the result
+   */
+  private autoReplay(): Promise<void> {
+    return this.replay().catch(error => {
+      log.error('[AckerJS HTTP] Offline replay failed:', error);
+    });
+  }
+
+  /**
+   * @returns True if replay stopped at a mutation that may be delivered on a later attempt
+   */
+  private async drain(): Promise<boolean> {
+    await this.ready;
+    this.blocked = false;
+
+    while (this.mutations.length > 0) {
+      const mutation = this.mutations[0];
+      mutation.attempts++;
+
+      try {
+        await this.send(mutation);
+      } catch (error) {
+        const resolution = await this.resolveFailure(mutation, error);
+        if (resolution !== 'discard') {
+          this.blocked = resolution === 'keep';
+          await this.persist();
+          return resolution === 'retry';
+        }
+      }
+
+      this.mutations.shift();
+      await this.persist();
+    }
+    return false;
+  }
+
+  /**
+   * @returns `discard` to drop the mutation and continue, `keep` to stop, or `retry` to stop and try again later
+   */
+  private async resolveFailure(mutation: QueuedMutation, error: unknown): Promise<ConflictResolution | 'retry'> {
+    const status = error instanceof HTTPError ? error.status : 0;
+
+    if (status === 409 || status === 412) {
+      const resolution = this.options.onConflict
+        ? await this.options.onConflict(mutation, error as HTTPError)
+        : 'discard';
+      return resolution;
+    }
+
+    // Network failures, throttling and server errors are retried on the next replay
+    if (
+      error instanceof NetworkError ||
+      error instanceof TimeoutError ||
+      status === 408 ||
+      status === 429 ||
+      status >= 500
+    ) {
+      return 'retry';
+    }
+
+    this.options.onDiscard?.(mutation, error);
+    return 'discard';
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.storage.save(this.mutations);
+    } catch (error) {
+      log.error('[AckerJS HTTP] Could not save offline queue:', error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.options.onStatusChange?.(this.status);
+  }
+}
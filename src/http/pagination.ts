@@ -0,0 +1,208 @@
+/**
+ * Pagination helpers for AckerJS HTTP requests
+ * Iterate Link-header, cursor, page and offset based listing APIs
+ */
+
+import { AbortError } from './errors.js';
+import { buildURL } from './url.js';
+
+/**
+ * Follow RFC 5988 `Link: <...>; rel="next"` response headers
+ */
+export interface LinkPagination {
+  type: 'link';
+}
+
+/**
+ * Read the next cursor from each page and send it as a query parameter
+ */
+export interface CursorPagination<TPage = any> {
+  type: 'cursor';
+  /** Query parameter carrying the cursor (default: 'cursor') */
+  param?: string;
+  /** Extract the next cursor from a page; a nullish or empty cursor ends iteration */
+  next: (page: TPage) => string | number | null | undefined;
+}
+
+/**
+ * Increment a page number query parameter
+ */
+export interface PagePagination {
+  type: 'page';
+  /** Query parameter carrying the page number (default: 'page') */
+  param?: string;
+  /** First page number (default: 1) */
+  start?: number;
+  /** Page size query parameter, sent when `size` is set (default: 'per_page') */
+  sizeParam?: string;
+  /** Page size; a shorter page ends iteration */
+  size?: number;
+}
+
+/**
+ * Increment an offset query parameter by the page size
+ */
+export interface OffsetPagination {
+  type: 'offset';
+  /** Query parameter carrying the offset (default: 'offset') */
+  param?: string;
+  /** Query parameter carrying the page size (default: 'limit') */
+  limitParam?: string;
+  /** Page size; a shorter page ends iteration */
+  limit: number;
+}
+
+export type PaginationStrategy<TPage = any> =
+  | LinkPagination
+  | CursorPagination<TPage>
+  | PagePagination
+  | OffsetPagination;
+
+/**
+ * Options controlling iteration
+ */
+export interface PaginateOptions<TPage = any, TItem = any> {
+  /** Stop after this many pages */
+  maxPages?: number;
+  /** Extract the items of a page (default: the page itself if it is an array, else `items` or `data`) */
+  items?: (page: TPage) => TItem[];
+  /** Stop iterating when aborted */
+  signal?: AbortSignal | null;
+}
+
+/**
+ * Loaded page data and response headers
+ */
+export interface LoadedPage {
+  data: unknown;
+  headers: Headers;
+}
+
+/**
+ * Parse an RFC 5988 Link header
+ * @param header - Link header value
+ * @returns Map of rel names to URLs
+ * @example
+ * parseLinkHeader('<https://api.example.com/items?page=2>; rel="next"');
+ * // { next: 'https://api.example.com/items?page=2' }
+ */
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) {
+    return links;
+  }
+
+  header.split(/,(?=\s*<)/).forEach(part => {
+    const match = /<([^>]*)>(.*)/.exec(part.trim());
+    const rel = match && /;\s*rel="?([^";]+)"?/i.exec(match[2]);
+    if (match && rel) {
+      rel[1].split(/\s+/).forEach(name => {
+        links[name] = match[1];
+      });
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Default items extractor
+ */
+export function defaultItems(page: any): any[] {
+  if (Array.isArray(page)) {
+    return page;
+  }
+  return page?.items ?? page?.data ?? [];
+}
+
+function resolveLink(link: string, current: string): string {
+  try {
+    return new URL(link, current).toString();
+  } catch {
+    return link;
+  }
+}
+
+/**
+ * Iterate pages using a strategy and a page loader
+ * @param url - URL of the first page
+ * @param strategy - How to find the next page
+ * @param load - Function fetching a page URL
+ * @param options - Iteration options
+ * @returns Async generator of pages
+ */
+export async function* iteratePages<TPage>(
+  url: string,
+  strategy: PaginationStrategy<TPage>,
+  load: (url: string) => Promise<LoadedPage>,
+  options: PaginateOptions<TPage> = {}
+): AsyncGenerator<TPage, void, undefined> {
+  const items = options.items ?? defaultItems;
+  let next: string | null = firstPageURL(url, strategy);
+
+  for (let count = 0; next && (options.maxPages === undefined || count < options.maxPages); count++) {
+    if (options.signal?.aborted) {
+      throw new AbortError(next, options.signal.reason);
+    }
+
+    const current: string = next;
+    const { data, headers } = await load(current);
+    const page = data as TPage;
+    yield page;
+
+    next = null;
+    switch (strategy.type) {
+      case 'link': {
+        const link = parseLinkHeader(headers.get('link')).next;
+        next = link ? resolveLink(link, current) : null;
+        break;
+      }
+      case 'cursor': {
+        const cursor = strategy.next(page);
+        if (cursor !== null && cursor !== undefined && cursor !== '') {
+          next = buildURL(url, { [strategy.param ?? 'cursor']: cursor });
+        }
+        break;
+      }
+      case 'page': {
+        const size = items(page).length;
+        if (size > 0 && !(strategy.size && size < strategy.size)) {
+          next = pageURL(url, strategy, (strategy.start ?? 1) + count + 1);
+        }
+        break;
+      }
+      case 'offset': {
+        const size = items(page).length;
+        if (size > 0 && size >= strategy.limit) {
+          next = offsetURL(url, strategy, (count + 1) * strategy.limit);
+        }
+        break;
+      }
+    }
+  }
+}
+
+function firstPageURL(url: string, strategy: PaginationStrategy): string {
+  switch (strategy.type) {
+    case 'page':
+      return pageURL(url, strategy, strategy.start ?? 1);
+    case 'offset':
+      return offsetURL(url, strategy, 0);
+    default:
+      return url;
+  }
+}
+
+function pageURL(url: string, strategy: PagePagination, page: number): string {
+  return buildURL(url, {
+    [strategy.param ?? 'page']: page,
+    ...(strategy.size ? { [strategy.sizeParam ?? 'per_page']: strategy.size } : {}),
+  });
+}
+
+function offsetURL(url: string, strategy: OffsetPagination, offset: number): string {
+  return buildURL(url, {
+    [strategy.param ?? 'offset']: offset,
+    [strategy.limitParam ?? 'limit']: strategy.limit,
+  });
+}
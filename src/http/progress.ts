@@ -0,0 +1,134 @@
+/**
+ * Upload and download progress reporting for AckerJS HTTP requests
+ */
+
+/**
+ * Progress of a transfer
+ */
+export interface Progress {
+  /** Bytes transferred so far */
+  loaded: number;
+  /** Total bytes, when known */
+  total?: number;
+  /** Completion from 0 to 100, when the total is known */
+  percentage?: number;
+}
+
+export type ProgressCallback = (progress: Progress) => void;
+
+function toProgress(loaded: number, total?: number): Progress {
+  return {
+    loaded,
+    total,
+    percentage: total ? Math.min(100, Math.round((loaded / total) * 100)) : undefined,
+  };
+}
+
+/**
+ * Wrap a response so reading its body reports download progress
+ * @param response - Successful Response
+ * @param onProgress - Progress callback
+ * @returns Response whose body reports progress as it is read
+ */
+export function trackDownload(response: Response, onProgress: ProgressCallback): Response {
+  if (!response.body) {
+    return response;
+  }
+
+  const total = Number(response.headers.get('content-length')) || undefined;
+  const reader = response.body.getReader();
+  let loaded = 0;
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      loaded += value.byteLength;
+      onProgress(toProgress(loaded, total));
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Parse the raw header block of an XMLHttpRequest
+ * @param raw - Result of getAllResponseHeaders()
+ */
+function parseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  });
+  return headers;
+}
+
+/**
+ * fetch-compatible request over XMLHttpRequest, which, unlike fetch, reports upload progress
+ * @param url - Request URL
+ * @param init - Fetch options
+ * @param onUploadProgress - Upload progress callback
+ * @returns Promise resolving to a Response built from the XHR result
+ */
+export function fetchWithUploadProgress(
+  url: string,
+  init: RequestInit,
+  onUploadProgress: ProgressCallback
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const signal = init.signal;
+
+    xhr.open((init.method || 'GET').toUpperCase(), url);
+    xhr.responseType = 'blob';
+    xhr.withCredentials = init.credentials === 'include';
+    new Headers(init.headers).forEach((value, key) => xhr.setRequestHeader(key, value));
+
+    xhr.upload.onprogress = (event) => {
+      onUploadProgress(toProgress(event.loaded, event.lengthComputable ? event.total : undefined));
+    };
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const done = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.onload = () => {
+      done();
+      const bodiless = xhr.status === 204 || xhr.status === 304;
+      resolve(new Response(bodiless ? null : xhr.response, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseHeaders(xhr.getAllResponseHeaders()),
+      }));
+    };
+    xhr.onerror = () => {
+      done();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      done();
+      reject(signal?.reason ?? new TypeError('Request aborted'));
+    };
+
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
@@ -0,0 +1,148 @@
+/**
+ * Request queue for createFetch clients
+ * Limits concurrency and request rate, with priority levels
+ */
+
+/**
+ * Queue configuration
+ */
+export interface QueueOptions {
+  /** Maximum number of requests in flight (default: unlimited) */
+  concurrency?: number;
+  /** Token-bucket limit: at most `requests` started per `interval` milliseconds */
+  rateLimit?: {
+    requests: number;
+    interval: number;
+  };
+}
+
+/**
+ * Priority of a queued request; higher numbers run first
+ */
+export type RequestPriority = 'high' | 'normal' | 'low' | number;
+
+interface QueuedTask {
+  run: () => void;
+  priority: number;
+  order: number;
+}
+
+const PRIORITIES: Record<string, number> = { high: 1, normal: 0, low: -1 };
+
+/**
+ * Priority queue that starts tasks within concurrency and rate limits
+ * @example
+ * const queue = new RequestQueue({ concurrency: 4, rateLimit: { requests: 10, interval: 1000 } });
+ * await queue.schedule(() => putJSON('/api/items/1', item), { priority: 'low' });
+ */
+export class RequestQueue {
+  private pending: QueuedTask[] = [];
+  private running = 0;
+  private order = 0;
+  private tokens: number;
+  private refilledAt = Date.now();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private options: QueueOptions = {}) {
+    this.tokens = options.rateLimit?.requests ?? Infinity;
+  }
+
+  /** Number of tasks waiting to start */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /** Number of tasks currently running */
+  get active(): number {
+    return this.running;
+  }
+
+  /**
+   * Run a task once a slot and a rate-limit token are available
+   * @param task - Function starting the request
+   * @param options - Priority and an optional signal that removes the task while it waits
+   * @returns Promise settling with the task
+   */
+  schedule<T>(
+    task: () => Promise<T>,
+    options: { priority?: RequestPriority; signal?: AbortSignal | null } = {}
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        this.pending = this.pending.filter(queued => queued !== entry);
+        reject(signal!.reason);
+      };
+
+      const entry: QueuedTask = {
+        priority: typeof options.priority === 'number'
+          ? options.priority
+          : PRIORITIES[options.priority ?? 'normal'] ?? 0,
+        order: this.order++,
+        run: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.running++;
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              this.drain();
+            });
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.push(entry);
+      this.pending.sort((a, b) => b.priority - a.priority || a.order - b.order);
+      this.drain();
+    });
+  }
+
+  private drain(): void {
+    const concurrency = this.options.concurrency ?? Infinity;
+
+    while (this.pending.length > 0 && this.running < concurrency) {
+      if (!this.takeToken()) {
+        this.scheduleDrain();
+        return;
+      }
+      this.pending.shift()!.run();
+    }
+  }
+
+  private takeToken(): boolean {
+    const limit = this.options.rateLimit;
+    if (!limit) {
+      return true;
+    }
+
+    const now = Date.now();
+    const refill = ((now - this.refilledAt) / limit.interval) * limit.requests;
+    this.tokens = Math.min(limit.requests, this.tokens + refill);
+    this.refilledAt = now;
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return true;
+    }
+    return false;
+  }
+
+  private scheduleDrain(): void {
+    const limit = this.options.rateLimit;
+    if (this.timer || !limit) {
+      return;
+    }
+
+    const wait = Math.ceil(((1 - this.tokens) * limit.interval) / limit.requests);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, wait);
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Retry policy for AckerJS HTTP requests
+ * Exponential backoff with jitter and Retry-After support
+ */
+
+/**
+ * Retry policy options
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  attempts?: number;
+  /** Base delay in milliseconds before the first retry (default: 300) */
+  delay?: number;
+  /** Upper bound for the backoff and Retry-After delay in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after each attempt (default: 2) */
+  factor?: number;
+  /** Randomize delays to avoid synchronized retries (default: true) */
+  jitter?: boolean;
+  /** Response status codes that trigger a retry */
+  statusCodes?: number[];
+  /** HTTP methods that may be retried; POST and PATCH must be opted in explicitly */
+  methods?: string[];
+}
+
+export type ResolvedRetryOptions = Required<RetryOptions>;
+
+export const DEFAULT_RETRY: ResolvedRetryOptions = {
+  attempts: 3,
+  delay: 300,
+  maxDelay: 10000,
+  factor: 2,
+  jitter: true,
+  statusCodes: [408, 429, 500, 502, 503, 504],
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+};
+
+/**
+ * Resolve the retry option of a request into a full policy
+ * @param retry - Retry option as passed by the caller
+ * @returns Resolved policy, or null if retries are disabled
+ */
+export function resolveRetry(
+  retry: number | boolean | RetryOptions | undefined
+): ResolvedRetryOptions | null {
+  if (retry === undefined || retry === false) {
+    return null;
+  }
+  if (retry === true) {
+    return DEFAULT_RETRY;
+  }
+  if (typeof retry === 'number') {
+    return retry > 1 ? { ...DEFAULT_RETRY, attempts: retry } : null;
+  }
+
+  const resolved = { ...DEFAULT_RETRY, ...retry };
+  resolved.methods = resolved.methods.map(method => method.toUpperCase());
+  return resolved.attempts > 1 ? resolved : null;
+}
+
+/**
+ * Parse a Retry-After header value
+ * @param value - Header value, either delay seconds or an HTTP date
+ * @returns Delay in milliseconds, or null if the value is missing or invalid
+ * @example
+ * parseRetryAfter('120'); // 120000
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Compute the delay before the next attempt
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param policy - Resolved retry policy
+ * @param response - Failed response, if any, used for Retry-After on 429/503
+ * @returns Delay in milliseconds, capped at maxDelay
+ */
+export function retryDelay(
+  attempt: number,
+  policy: ResolvedRetryOptions,
+  response?: Response
+): number {
+  if (response && (response.status === 429 || response.status === 503)) {
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    if (retryAfter !== null) {
+      // Never wait longer than the policy allows, whatever the server asks for
+      return Math.min(retryAfter, policy.maxDelay);
+    }
+  }
+
+  const backoff = Math.min(policy.maxDelay, policy.delay * Math.pow(policy.factor, attempt - 1));
+  return policy.jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting early if the signal aborts
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,293 @@
+/**
+ * Reconnecting WebSocket client for AckerJS
+ * JSON messaging, typed subscriptions and request/response correlation
+ */
+
+import { log } from '../logger.js';
+import { AbortError, ParseError, TimeoutError } from './errors.js';
+
+/**
+ * Minimal WebSocket interface, satisfied by the browser WebSocket and the `ws` package
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: { code: number; reason: string }) => void) | null;
+  onerror: ((event: any) => void) | null;
+}
+
+export type WebSocketConstructor = new (url: string, protocols?: string | string[]) => WebSocketLike;
+
+/**
+ * Options for createSocket
+ */
+export interface SocketOptions {
+  protocols?: string | string[];
+  /** WebSocket implementation (default: the global WebSocket) */
+  WebSocket?: WebSocketConstructor;
+  /** Reconnect when the connection drops (default: true) */
+  reconnect?: boolean;
+  /** Base reconnect delay in milliseconds, doubled after each failed attempt (default: 500) */
+  reconnectDelay?: number;
+  /** Upper bound for the reconnect delay in milliseconds (default: 30000) */
+  maxReconnectDelay?: number;
+  /** Give up after this many consecutive failed reconnects (default: unlimited) */
+  maxReconnectAttempts?: number;
+  /** Maximum number of outgoing messages buffered while disconnected (default: 100) */
+  bufferSize?: number;
+  /** Message field holding the message type (default: 'type') */
+  typeKey?: string;
+  /** Message field correlating requests and replies (default: 'id') */
+  idKey?: string;
+  /** Default timeout for request() in milliseconds (default: 10000) */
+  requestTimeout?: number;
+  onOpen?: () => void;
+  onClose?: (event: { code: number; reason: string }) => void;
+  onError?: (error: unknown) => void;
+}
+
+export type SocketState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+interface PendingRequest {
+  resolve: (reply: any) => void;
+  reject: (error: unknown) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const OPEN = 1;
+
+/**
+ * WebSocket connection that reconnects with backoff and exchanges JSON messages
+ * @typeParam M - Map of message types to message shapes, used to type subscriptions
+ */
+export class SocketClient<M extends Record<string, any> = Record<string, any>> {
+  /** Connection state */
+  state: SocketState = 'connecting';
+
+  private socket: WebSocketLike | null = null;
+  private outbox: string[] = [];
+  private handlers = new Map<string, Set<(message: any) => void>>();
+  private pending = new Map<string, PendingRequest>();
+  private attempts = 0;
+  private sequence = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private url: string, private options: SocketOptions = {}) {
+    this.connect();
+  }
+
+  /**
+   * Send a message, JSON encoded; buffered while disconnected
+   * @param message - Message to send
+   */
+  send(message: unknown): void {
+    if (this.state === 'closed') {
+      throw new Error(`[AckerJS Socket] Cannot send on closed socket ${this.url}`);
+    }
+
+    const data = JSON.stringify(message);
+    if (this.socket?.readyState === OPEN) {
+      this.socket.send(data);
+      return;
+    }
+
+    const limit = this.options.bufferSize ?? 100;
+    if (this.outbox.length >= limit) {
+      this.outbox.shift();
+      log.warn(`[AckerJS Socket] Outgoing buffer full for ${this.url}, dropping oldest message`);
+    }
+    this.outbox.push(data);
+  }
+
+  /**
+   * Subscribe to messages of one type, or '*' for every message
+   * @param type - Message type
+   * @param handler - Message handler
+   * @returns Function that removes the handler
+   * @example
+   * socket.on('job:update', (message) => render(message.progress));
+   */
+  on<K extends keyof M & string>(type: K, handler: (message: M[K]) => void): () => void;
+  on(type: '*', handler: (message: any) => void): () => void;
+  on(type: string, handler: (message: any) => void): () => void {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
+    }
+    this.handlers.get(type)!.add(handler);
+    return () => {
+      this.handlers.get(type)?.delete(handler);
+    };
+  }
+
+  /**
+   * Send a message with a generated id and wait for the reply carrying the same id
+   * @param message - Message to send
+   * @param options - Optional timeout in milliseconds
+   * @returns Promise resolving to the reply
+   * @throws TimeoutError if no reply arrives in time
+   * @throws AbortError if the socket is closed first
+   * @example
+   * const reply = await socket.request({ type: 'subscribe', channel: 'jobs' });
+   */
+  request<R = any>(message: Record<string, unknown>, options: { timeout?: number } = {}): Promise<R> {
+    const idKey = this.options.idKey ?? 'id';
+    const id = `${Date.now().toString(36)}-${++this.sequence}`;
+    const timeout = options.timeout ?? this.options.requestTimeout ?? 10000;
+
+    return new Promise<R>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new TimeoutError(this.url, timeout));
+      }, timeout);
+
+      this.pending.set(id, { resolve, reject, timer });
+
+      try {
+        this.send({ ...message, [idKey]: id });
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Close the connection and stop reconnecting; pending requests reject with AbortError
+   * @param code - Close code
+   * @param reason - Close reason
+   */
+  close(code?: number, reason?: string): void {
+    this.state = 'closed';
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.outbox = [];
+
+    // Detached sockets no longer reconnect, but onClose still reports the close event
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onclose = (event) => this.options.onClose?.(event);
+      socket.close(code, reason);
+    }
+
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new AbortError(this.url));
+    });
+    this.pending.clear();
+  }
+
+  private connect(): void {
+    // The DOM types its handler events more narrowly than WebSocketLike, which test fakes implement
+    const Impl = this.options.WebSocket ?? (typeof WebSocket !== 'undefined' ? (WebSocket as WebSocketConstructor) : undefined);
+    if (!Impl) {
+      throw new Error('[AckerJS Socket] No WebSocket implementation available');
+    }
+
+    const socket = new Impl(this.url, this.options.protocols);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.state = 'open';
+      this.attempts = 0;
+      this.outbox.splice(0).forEach(data => socket.send(data));
+      this.options.onOpen?.();
+    };
+
+    socket.onmessage = (event) => this.receive(event.data);
+
+    socket.onerror = (event) => {
+      this.options.onError?.(event);
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = null;
+      this.options.onClose?.(event);
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    const {
+      reconnect = true,
+      reconnectDelay = 500,
+      maxReconnectDelay = 30000,
+      maxReconnectAttempts = Infinity,
+    } = this.options;
+
+    if (this.state === 'closed') {
+      return;
+    }
+    if (!reconnect || this.attempts >= maxReconnectAttempts) {
+      this.close();
+      return;
+    }
+
+    this.state = 'reconnecting';
+    const backoff = Math.min(maxReconnectDelay, reconnectDelay * Math.pow(2, this.attempts++));
+    // Jitter between 50% and 100% of the backoff avoids reconnect storms
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      try {
+        this.connect();
+      } catch (error) {
+        this.options.onError?.(error);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private receive(data: unknown): void {
+    let message: any;
+    try {
+      message = JSON.parse(String(data));
+    } catch (error) {
+      this.options.onError?.(new ParseError(this.url, 0, error));
+      return;
+    }
+
+    const id = message?.[this.options.idKey ?? 'id'];
+    const request = id !== undefined ? this.pending.get(String(id)) : undefined;
+    if (request) {
+      clearTimeout(request.timer);
+      this.pending.delete(String(id));
+      request.resolve(message);
+      return;
+    }
+
+    const type = message?.[this.options.typeKey ?? 'type'];
+    if (typeof type === 'string') {
+      this.handlers.get(type)?.forEach(handler => handler(message));
+    }
+    this.handlers.get('*')?.forEach(handler => handler(message));
+  }
+}
+
+/**
+ * Open a reconnecting JSON WebSocket client
+ * @param url - WebSocket URL
+ * @param options - Reconnect, buffering and correlation settings
+ * @returns Connected SocketClient
+ * @example
+ * interface Messages { 'job:update': { type: 'job:update'; jobId: string; progress: number } }
+ * const socket = createSocket<Messages>('wss://api.example.com/live');
+ * socket.on('job:update', (message) => render(message.progress));
+ * socket.send({ type: 'subscribe', channel: 'jobs' });
+ */
+export function createSocket<M extends Record<string, any> = Record<string, any>>(
+  url: string,
+  options?: SocketOptions
+): SocketClient<M> {
+  return new SocketClient<M>(url, options);
+}
@@ -0,0 +1,409 @@
+/**
+ * Server-Sent Events client for AckerJS
+ * Built on fetch streaming so requests can send headers and bodies, unlike EventSource
+ */
+
+import { log } from '../logger.js';
+import { HTTPError, ParseError } from './errors.js';
+import { sleep } from './retry.js';
+import type { FetchFunction } from './types.js';
+
+/**
+ * Event received from a `text/event-stream` response
+ */
+export interface ServerSentEvent<T = string> {
+  /** Event type (default: 'message') */
+  type: string;
+  data: T;
+  /** Last event ID seen on the stream */
+  id?: string;
+}
+
+/**
+ * Options for eventStream
+ */
+export interface EventStreamOptions<T = string> extends Omit<RequestInit, 'body' | 'signal'> {
+  /** Request body; plain objects and arrays are JSON encoded */
+  body?: BodyInit | Record<string, unknown> | unknown[] | null;
+  /** JSON-parse the data of every event */
+  json?: boolean;
+  /** Reconnect when the connection drops (default: true) */
+  reconnect?: boolean;
+  /** Delay before reconnecting in milliseconds; the server can change it with `retry:` (default: 3000) */
+  retryDelay?: number;
+  /** Give up after this many consecutive failed reconnects (default: unlimited) */
+  maxRetries?: number;
+  /** Initial Last-Event-ID sent with the first request */
+  lastEventId?: string;
+  /** Close the stream when aborted */
+  signal?: AbortSignal | null;
+  /** fetch implementation to use instead of the global fetch */
+  fetch?: FetchFunction;
+  onOpen?: (response: Response) => void;
+  onMessage?: (event: ServerSentEvent<T>) => void;
+  onError?: (error: unknown) => void;
+}
+
+export type EventStreamState = 'connecting' | 'open' | 'closed';
+
+interface RawEvent {
+  type: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Incremental parser for the `text/event-stream` format
+ * @example
+ * const parser = new EventStreamParser((event) => console.log(event.type, event.data));
+ * parser.feed('event: ping\ndata: 1\n\n');
+ */
+export class EventStreamParser {
+  private buffer = '';
+  private data: string[] = [];
+  private type = '';
+  /** Last event ID set by the stream */
+  lastEventId: string | undefined;
+  /** Reconnection time requested by the stream */
+  retry: number | undefined;
+
+  constructor(private onEvent: (event: RawEvent) => void) {}
+
+  /**
+   * Feed decoded text into the parser
+   * @param text - Next chunk of the stream
+   */
+  feed(text: string): void {
+    this.buffer += text;
+
+    // A trailing CR may be the first half of a CRLF split across chunks
+    const end = this.buffer.endsWith('\r') ? this.buffer.length - 1 : this.buffer.length;
+    const lines = this.buffer.slice(0, end).split(/\r\n|\r|\n/);
+    this.buffer = lines.pop()! + this.buffer.slice(end);
+
+    lines.forEach(line => this.processLine(line));
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.type = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = Number(value);
+        }
+        break;
+    }
+  }
+
+  private dispatch(): void {
+    if (this.data.length > 0) {
+      this.onEvent({ type: this.type || 'message', data: this.data.join('\n'), id: this.lastEventId });
+    }
+    this.data = [];
+    this.type = '';
+  }
+}
+
+type Waiter<T> = {
+  resolve: (result: IteratorResult<ServerSentEvent<T>>) => void;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * Live connection to a Server-Sent Events endpoint
+ */
+export class EventStream<T = string> implements AsyncIterable<ServerSentEvent<T>> {
+  /** Connection state */
+  state: EventStreamState = 'connecting';
+  /** Last event ID received, sent as Last-Event-ID when reconnecting */
+  lastEventId: string | undefined;
+
+  private controller = new AbortController();
+  private listeners = new Map<string, Set<(event: ServerSentEvent<T>) => void>>();
+  private buffered: ServerSentEvent<T>[] = [];
+  private waiters: Waiter<T>[] = [];
+  private iterating = false;
+  private failure: unknown;
+  private retryDelay: number;
+
+  constructor(private url: string, private options: EventStreamOptions<T> = {}) {
+    this.lastEventId = options.lastEventId;
+    this.retryDelay = options.retryDelay ?? 3000;
+
+    const signal = options.signal;
+    if (signal?.aborted) {
+      this.close();
+      return;
+    }
+    signal?.addEventListener('abort', () => this.close(), { once: true });
+
+    this.run().catch(error => log.error('[AckerJS HTTP] Event stream stopped unexpectedly:', error));
+  }
+
+  /**
+   * Listen for events of one type
+   * @param type - Event type, e.g. 'message' or a custom `event:` name
+   * @param listener - Event handler
+   * @returns Function that removes the listener
+   */
+  on(type: string, listener: (event: ServerSentEvent<T>) => void): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener);
+    return () => {
+      this.listeners.get(type)?.delete(listener);
+    };
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  close(): void {
+    if (this.state === 'closed') {
+      return;
+    }
+    this.state = 'closed';
+    this.controller.abort();
+    this.waiters.splice(0).forEach(waiter => {
+      if (this.failure !== undefined) {
+        waiter.reject(this.failure);
+      } else {
+        waiter.resolve({ value: undefined, done: true });
+      }
+    });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ServerSentEvent<T>> {
+    this.iterating = true;
+    return {
+      next: () => {
+        if (this.buffered.length > 0) {
+          return Promise.resolve({ value: this.buffered.shift()!, done: false });
+        }
+        if (this.state === 'closed') {
+          return this.failure !== undefined
+            ? Promise.reject(this.failure)
+            : Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+      },
+      return: () => {
+        this.close();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+
+  private get closed(): boolean {
+    return this.state === 'closed';
+  }
+
+  private async run(): Promise<void> {
+    const { reconnect = true, maxRetries = Infinity } = this.options;
+    let failures = 0;
+
+    while (!this.closed) {
+      try {
+        const response = await this.connect();
+        if (!response) {
+          return;
+        }
+        failures = 0;
+        await this.read(response);
+      } catch (error) {
+        if (this.closed) {
+          return;
+        }
+        this.emitError(error);
+        failures++;
+      }
+
+      if (!reconnect || failures > maxRetries || this.closed) {
+        this.close();
+        return;
+      }
+
+      this.state = 'connecting';
+      try {
+        await sleep(this.retryDelay, this.controller.signal);
+      } catch {
+        return;
+      }
+    }
+  }
+
+  private async connect(): Promise<Response | null> {
+    const {
+      body,
+      json: _json,
+      reconnect: _reconnect,
+      retryDelay: _retryDelay,
+      maxRetries: _maxRetries,
+      lastEventId: _lastEventId,
+      signal: _signal,
+      fetch: customFetch,
+      onOpen,
+      onMessage: _onMessage,
+      onError: _onError,
+      ...init
+    } = this.options;
+
+    const headers = new Headers(init.headers);
+    headers.set('Accept', 'text/event-stream');
+    if (this.lastEventId) {
+      headers.set('Last-Event-ID', this.lastEventId);
+    }
+
+    let requestBody = body as BodyInit | null | undefined;
+    const plain = typeof body === 'object' && body !== null &&
+      (Array.isArray(body) || Object.getPrototypeOf(body) === Object.prototype);
+    if (plain) {
+      requestBody = JSON.stringify(body);
+      if (!headers.has('Content-Type')) {
+        headers.set('Content-Type', 'application/json');
+      }
+    }
+
+    const transport = customFetch ?? fetch;
+    const response = await transport(this.url, {
+      ...init,
+      method: init.method ?? (requestBody ? 'POST' : 'GET'),
+      headers,
+      body: requestBody,
+      signal: this.controller.signal,
+    });
+
+    // 204 No Content tells the client to stop reconnecting
+    if (response.status === 204) {
+      this.close();
+      return null;
+    }
+    // Error statuses and non-stream responses are fatal, as with EventSource
+    if (!response.ok) {
+      this.fail(new HTTPError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        response.statusText,
+        this.url,
+        { headers: response.headers, method: init.method }
+      ));
+      return null;
+    }
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('text/event-stream') || !response.body) {
+      this.fail(new Error(`Expected text/event-stream from ${this.url}, received ${contentType || 'no content type'}`));
+      return null;
+    }
+
+    this.state = 'open';
+    if (onOpen) {
+      this.invoke(() => onOpen(response));
+    }
+    return response;
+  }
+
+  private async read(response: Response): Promise<void> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const parser = new EventStreamParser(raw => this.emit(raw));
+    parser.lastEventId = this.lastEventId;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        parser.feed(decoder.decode(value, { stream: true }));
+        this.lastEventId = parser.lastEventId;
+        if (parser.retry !== undefined) {
+          this.retryDelay = parser.retry;
+        }
+      }
+    } finally {
+      // Release the connection even when reading fails, so reconnects never leave it open
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  private emit(raw: RawEvent): void {
+    let data: unknown = raw.data;
+    if (this.options.json) {
+      try {
+        data = JSON.parse(raw.data);
+      } catch (error) {
+        this.emitError(new ParseError(this.url, 200, error));
+        return;
+      }
+    }
+
+    const event: ServerSentEvent<T> = { type: raw.type, data: data as T, id: raw.id };
+
+    const { onMessage } = this.options;
+    if (event.type === 'message' && onMessage) {
+      this.invoke(() => onMessage(event));
+    }
+    this.listeners.get(event.type)?.forEach(listener => this.invoke(() => listener(event)));
+
+    if (this.waiters.length > 0) {
+      this.waiters.shift()!.resolve({ value: event, done: false });
+    } else if (this.iterating) {
+      this.buffered.push(event);
+    }
+  }
+
+  /**
+   * Run a user callback; its errors are reported instead of being mistaken for a dropped connection
+   */
+  private invoke(callback: () => void): void {
+    try {
+      callback();
+    } catch (error) {
+      this.emitError(error);
+    }
+  }
+
+  private emitError(error: unknown): void {
+    if (!this.options.onError) {
+      log.error('[AckerJS HTTP] Event stream error:', error);
+      return;
+    }
+    try {
+      this.options.onError(error);
+    } catch (handlerError) {
+      log.error('[AckerJS HTTP] Event stream onError handler failed:', handlerError);
+    }
+  }
+
+  private fail(error: unknown): void {
+    this.failure = error;
+    this.emitError(error);
+    this.close();
+  }
+}
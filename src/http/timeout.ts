@@ -0,0 +1,100 @@
+/**
+ * Timeout and cancellation support for AckerJS HTTP requests
+ */
+
+import { AbortError, TimeoutError } from './errors.js';
+
+/**
+ * Signal combining a caller AbortSignal with a timeout
+ */
+export interface RequestSignal {
+  signal?: AbortSignal;
+  /** Clear the timeout and detach from the caller's signal */
+  cleanup: () => void;
+}
+
+/**
+ * Combine a caller-supplied signal with an optional timeout
+ * @param url - Request URL, used in error messages
+ * @param signal - Optional caller AbortSignal
+ * @param timeout - Optional timeout in milliseconds
+ * @returns Combined signal and a cleanup function
+ */
+export function createRequestSignal(
+  url: string,
+  signal?: AbortSignal | null,
+  timeout?: number
+): RequestSignal {
+  if (!timeout || timeout <= 0) {
+    return { signal: signal ?? undefined, cleanup: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = setTimeout(() => controller.abort(new TimeoutError(url, timeout)), timeout);
+
+  return {
+    signal: controller.signal,
+    cleanup: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Convert the reason of an aborted signal into a TimeoutError or AbortError
+ * @param url - Request URL
+ * @param signal - Aborted signal
+ * @returns Error to throw to the caller
+ */
+export function abortError(url: string, signal: AbortSignal): TimeoutError | AbortError {
+  const reason = signal.reason;
+  if (reason instanceof TimeoutError || reason instanceof AbortError) {
+    return reason;
+  }
+  return new AbortError(url, reason);
+}
+
+/**
+ * Settle with a promise, or reject early once a caller's signal aborts or its timeout passes.
+ * The promise itself keeps running, so other callers sharing it are not affected.
+ * @param url - Request URL, used in error messages
+ * @param promise - Promise to wait for
+ * @param signal - Optional caller AbortSignal
+ * @param timeout - Optional timeout in milliseconds
+ * @returns Promise settling like `promise` unless the caller gives up first
+ * @throws TimeoutError or AbortError when the caller gives up first
+ */
+export function raceSignal<T>(
+  url: string,
+  promise: Promise<T>,
+  signal?: AbortSignal | null,
+  timeout?: number
+): Promise<T> {
+  const { signal: combined, cleanup } = createRequestSignal(url, signal, timeout);
+  if (!combined) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(url, combined));
+    if (combined.aborted) {
+      onAbort();
+    } else {
+      combined.addEventListener('abort', onAbort, { once: true });
+    }
+
+    promise.then(resolve, reject).finally(() => {
+      combined.removeEventListener('abort', onAbort);
+      cleanup();
+    });
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * Shared HTTP types
+ * Option types accepted by every AckerJS HTTP helper
+ */
+
+import type { AuthProvider } from './auth.js';
+import type { ResponseType } from './body.js';
+import type { CacheOptions } from './cache.js';
+import type { OfflineOptions } from './offline.js';
+import type { ProgressCallback } from './progress.js';
+import type { QueueOptions, RequestPriority } from './queue.js';
+import type { RetryOptions } from './retry.js';
+import type { Validator } from './validate.js';
+
+/**
+ * fetch-compatible transport function
+ */
+export type FetchFunction = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Timing and size of one request, reported to `onMetrics`
+ */
+export interface RequestMetrics {
+  method: string;
+  url: string;
+  /** Final response status; undefined when no response was received */
+  status?: number;
+  /** Milliseconds from sending the request to reading the body, including retries */
+  duration: number;
+  /** Response size from Content-Length, when the server sends it */
+  bytes?: number;
+  /** Failure, if the request did not succeed */
+  error?: unknown;
+}
+
+/**
+ * Fetch options extended with AckerJS request features
+ * @typeParam T - Response type, inferred from `validate` when given
+ */
+export interface RequestOptions<T = any> extends RequestInit {
+  /**
+   * Retry policy: a number of attempts, `true` for the defaults, or a full policy.
+   * Disabled by default.
+   */
+  retry?: number | boolean | RetryOptions;
+
+  /**
+   * Maximum time in milliseconds for the whole request, including retries.
+   * Composes with `signal`: whichever fires first cancels the request.
+   */
+  timeout?: number;
+
+  /**
+   * Cache GET responses in memory: `true` for the defaults, or a cache policy.
+   * Identical concurrent requests always share one promise while caching is on.
+   */
+  responseCache?: boolean | CacheOptions;
+
+  /**
+   * URL prefixes whose cached responses are invalidated after this request succeeds
+   */
+  invalidate?: string | string[];
+
+  /**
+   * Send If-None-Match / If-Modified-Since from validators remembered for this URL
+   * and resolve 304 Not Modified with the previously stored body (GET and HEAD only)
+   */
+  conditional?: boolean;
+
+  /**
+   * Send an If-Match header: an explicit ETag, or `true` to use the ETag remembered for this URL
+   */
+  ifMatch?: string | boolean;
+
+  /**
+   * Type guard or schema the parsed response must satisfy; narrows the return type
+   */
+  validate?: Validator<T>;
+
+  /**
+   * How to read the response body (default: 'json')
+   */
+  responseType?: ResponseType;
+
+  /**
+   * Called as the response body is downloaded; the total comes from Content-Length
+   */
+  onDownloadProgress?: ProgressCallback;
+
+  /**
+   * Called as the request body is uploaded. The request is sent over XMLHttpRequest
+   * because fetch does not report upload progress; stream bodies are not supported,
+   * and the callback is not invoked when a custom `fetch` is in use.
+   */
+  onUploadProgress?: ProgressCallback;
+
+  /**
+   * fetch implementation used for this request instead of the global fetch
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * Priority in the client's request queue; higher runs first (default: 'normal')
+   */
+  queuePriority?: RequestPriority;
+
+  /**
+   * Called after each network request with its timing, status and size; served cache hits are not reported
+   */
+  onMetrics?: (metrics: RequestMetrics) => void;
+}
+
+/**
+ * Options accepted by createFetch: request defaults plus client-wide features
+ */
+export interface ClientOptions extends RequestOptions {
+  /**
+   * Attach access tokens and refresh them once, for all concurrent requests, on 401
+   */
+  auth?: AuthProvider;
+
+  /**
+   * Queue requests to limit concurrency and rate; queued requests stay cancellable via `signal`
+   */
+  queue?: QueueOptions;
+
+  /**
+   * Queue `post`/`put`/`patch`/`delete` calls that fail with a network error and replay them in order when back online
+   */
+  offline?: OfflineOptions;
+}
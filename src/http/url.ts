@@ -0,0 +1,191 @@
+/**
+ * URL Utilities
+ * Build and parse URLs with path templates and query parameters
+ */
+
+import { log } from '../logger.js';
+
+/**
+ * How arrays are written to the query string
+ * - `repeat` `tags=a&tags=b` (default)
+ * - `brackets` `tags[]=a&tags[]=b`
+ * - `comma` `tags=a,b`
+ */
+export type ArrayFormat = 'repeat' | 'brackets' | 'comma';
+
+/**
+ * Options for buildURL
+ */
+export interface BuildURLOptions {
+  /** Array serialization (default: 'repeat') */
+  arrayFormat?: ArrayFormat;
+  /** Date serialization (default: ISO 8601 via `toISOString`) */
+  serializeDate?: (date: Date) => string;
+}
+
+/**
+ * Options for parseURL
+ */
+export interface ParseURLOptions {
+  /** Collect repeated keys and `key[]` into arrays */
+  arrays?: boolean;
+  /** Convert numeric strings to numbers and 'true'/'false' to booleans */
+  coerce?: boolean;
+}
+
+export type QueryValue = string | number | boolean;
+
+const ABSOLUTE_URL = /^[a-z][a-z\d+\-.]*:\/\//i;
+const PATH_PARAM = /\/:([A-Za-z_$][\w$]*)/g;
+
+function splitOnce(value: string, separator: string): [string, string] {
+  const index = value.indexOf(separator);
+  return index === -1 ? [value, ''] : [value.slice(0, index), value.slice(index + 1)];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function serializeValue(value: unknown, options: BuildURLOptions): string {
+  if (value instanceof Date) {
+    return options.serializeDate ? options.serializeDate(value) : value.toISOString();
+  }
+  return String(value);
+}
+
+function appendParam(search: URLSearchParams, key: string, value: unknown, options: BuildURLOptions): void {
+  if (value === null || value === undefined) {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    const format = options.arrayFormat ?? 'repeat';
+    const items = value.filter(item => item !== null && item !== undefined);
+
+    if (format === 'comma' && !items.some(isPlainObject)) {
+      if (items.length > 0) {
+        search.append(key, items.map(item => serializeValue(item, options)).join(','));
+      }
+      return;
+    }
+
+    items.forEach((item, index) => {
+      if (isPlainObject(item)) {
+        appendParam(search, `${key}[${index}]`, item, options);
+      } else {
+        search.append(format === 'brackets' ? `${key}[]` : key, serializeValue(item, options));
+      }
+    });
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    Object.entries(value).forEach(([child, childValue]) => {
+      appendParam(search, `${key}[${child}]`, childValue, options);
+    });
+    return;
+  }
+
+  search.append(key, serializeValue(value, options));
+}
+
+/**
+ * Build a URL from a path template and query parameters
+ * @param baseURL - Absolute or relative URL; `/:name` segments are filled from `params`
+ * @param params - Path parameters and query parameters; nested objects use `key[child]` notation
+ * @param options - Array and Date serialization
+ * @returns URL string with encoded path and query parameters
+ * @throws Error if a path parameter has no value
+ * @example
+ * const url = buildURL('https://api.example.com/search', { q: 'test', limit: 10 });
+ * // Returns: 'https://api.example.com/search?q=test&limit=10'
+ * buildURL('/users/:id/posts', { id: 42, filter: { status: 'draft' }, tags: ['a', 'b'] }, { arrayFormat: 'comma' });
+ * // Returns: '/users/42/posts?filter%5Bstatus%5D=draft&tags=a%2Cb'
+ */
+export function buildURL(
+  baseURL: string,
+  params: Record<string, any> = {},
+  options: BuildURLOptions = {}
+): string {
+  const [withoutHash, hash] = splitOnce(baseURL, '#');
+  const [template, query] = splitOnce(withoutHash, '?');
+  const queryParams = { ...params };
+
+  const path = template.replace(PATH_PARAM, (_match, name: string) => {
+    const value = queryParams[name];
+    if (value === null || value === undefined) {
+      throw new Error(`[AckerJS HTTP] Missing path parameter "${name}" for ${baseURL}`);
+    }
+    delete queryParams[name];
+    return `/${encodeURIComponent(serializeValue(value, options))}`;
+  });
+
+  const search = new URLSearchParams(query);
+  Object.entries(queryParams).forEach(([key, value]) => appendParam(search, key, value, options));
+
+  if (ABSOLUTE_URL.test(path)) {
+    const url = new URL(path);
+    url.search = search.toString();
+    url.hash = hash;
+    return url.toString();
+  }
+
+  const queryString = search.toString();
+  return `${path}${queryString ? `?${queryString}` : ''}${hash ? `#${hash}` : ''}`;
+}
+
+function coerceValue(value: string): QueryValue {
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  // Leading zeros are kept as strings so identifiers such as ZIP codes survive
+  if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Parse query parameters from a URL string
+ * @param url - Absolute or relative URL string to parse
+ * @param options - Keep repeated keys as arrays and coerce numbers and booleans
+ * @returns Object containing parsed query parameters
+ * @example
+ * const params = parseURL('https://api.example.com/search?q=test&limit=10');
+ * // Returns: { q: 'test', limit: '10' }
+ * parseURL('/search?tag=a&tag=b&limit=10&exact=true', { arrays: true, coerce: true });
+ * // Returns: { tag: ['a', 'b'], limit: 10, exact: true }
+ */
+export function parseURL(url: string): Record<string, string>;
+export function parseURL(url: string, options: ParseURLOptions): Record<string, QueryValue | QueryValue[]>;
+export function parseURL(url: string, options: ParseURLOptions = {}): Record<string, QueryValue | QueryValue[]> {
+  try {
+    const urlObj = new URL(url, 'http://localhost');
+    const params: Record<string, QueryValue | QueryValue[]> = {};
+
+    urlObj.searchParams.forEach((raw, rawKey) => {
+      const value = options.coerce ? coerceValue(raw) : raw;
+
+      if (!options.arrays) {
+        params[rawKey] = value;
+        return;
+      }
+
+      const isArrayKey = rawKey.endsWith('[]');
+      const key = isArrayKey ? rawKey.slice(0, -2) : rawKey;
+      const existing = params[key];
+
+      if (existing === undefined) {
+        params[key] = isArrayKey ? [value] : value;
+      } else {
+        params[key] = ([] as QueryValue[]).concat(existing, value);
+      }
+    });
+
+    return params;
+  } catch (error) {
+    log.error('[AckerJS HTTP] Invalid URL for parsing:', url);
+    return {};
+  }
+}
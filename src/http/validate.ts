@@ -0,0 +1,172 @@
+/**
+ * Runtime response validation for AckerJS HTTP requests
+ * Accepts type guards or small built-in schemas
+ */
+
+import { ValidationError, type ValidationIssue } from './errors.js';
+
+/**
+ * Schema describing the expected shape of a value
+ */
+export interface Schema<T> {
+  /**
+   * Collect validation issues for a value
+   * @param value - Value to check
+   * @param path - Path of the value, used in issues
+   * @param issues - Issue list to append to
+   */
+  check(value: unknown, path: string, issues: ValidationIssue[]): void;
+  /** Phantom field carrying the validated type */
+  readonly _type?: T;
+}
+
+/**
+ * Type described by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Type guard function narrowing unknown data to T
+ */
+export type TypeGuard<T> = (value: unknown) => value is T;
+
+/**
+ * Anything accepted by the `validate` request option
+ */
+export type Validator<T> = TypeGuard<T> | Schema<T>;
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function primitive<T>(type: string): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== type) {
+        issues.push({ path, message: `expected ${type}, received ${describe(value)}` });
+      }
+    },
+  };
+}
+
+/**
+ * Built-in schema builders
+ * @example
+ * const User = schema.object({
+ *   id: schema.number(),
+ *   name: schema.string(),
+ *   roles: schema.array(schema.string()),
+ *   manager: schema.nullable(schema.number()),
+ * });
+ * const user = await fetchJSON('/api/me', { validate: User });
+ */
+export const schema = {
+  string: (): Schema<string> => primitive<string>('string'),
+
+  number: (): Schema<number> => primitive<number>('number'),
+
+  boolean: (): Schema<boolean> => primitive<boolean>('boolean'),
+
+  unknown: (): Schema<unknown> => ({ check() {} }),
+
+  literal<L extends string | number | boolean>(expected: L): Schema<L> {
+    return {
+      check(value, path, issues) {
+        if (value !== expected) {
+          issues.push({ path, message: `expected ${JSON.stringify(expected)}, received ${JSON.stringify(value)}` });
+        }
+      },
+    };
+  },
+
+  array<T>(items: Schema<T>): Schema<T[]> {
+    return {
+      check(value, path, issues) {
+        if (!Array.isArray(value)) {
+          issues.push({ path, message: `expected array, received ${describe(value)}` });
+          return;
+        }
+        value.forEach((item, index) => items.check(item, `${path}[${index}]`, issues));
+      },
+    };
+  },
+
+  object<S extends Record<string, Schema<any>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+    return {
+      check(value, path, issues) {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          issues.push({ path, message: `expected object, received ${describe(value)}` });
+          return;
+        }
+        Object.entries(shape).forEach(([key, child]) => {
+          child.check((value as Record<string, unknown>)[key], `${path}.${key}`, issues);
+        });
+      },
+    };
+  },
+
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return {
+      check(value, path, issues) {
+        if (value !== undefined) {
+          inner.check(value, path, issues);
+        }
+      },
+    };
+  },
+
+  nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return {
+      check(value, path, issues) {
+        if (value !== null) {
+          inner.check(value, path, issues);
+        }
+      },
+    };
+  },
+
+  union<S extends Schema<any>[]>(...members: S): Schema<Infer<S[number]>> {
+    return {
+      check(value, path, issues) {
+        const matches = members.some(member => {
+          const memberIssues: ValidationIssue[] = [];
+          member.check(value, path, memberIssues);
+          return memberIssues.length === 0;
+        });
+        if (!matches) {
+          issues.push({ path, message: `value did not match any allowed type (received ${describe(value)})` });
+        }
+      },
+    };
+  },
+};
+
+/**
+ * Validate data against a type guard or schema
+ * @param data - Data to validate
+ * @param validator - Type guard or schema
+ * @param url - Request URL, used in the error message
+ * @returns The data, narrowed to T
+ * @throws ValidationError listing the failing paths
+ * @example
+ * const user = assertValid(json, User, '/api/me');
+ */
+export function assertValid<T>(data: unknown, validator: Validator<T>, url: string): T {
+  const issues: ValidationIssue[] = [];
+
+  if (typeof validator === 'function') {
+    if (!validator(data)) {
+      issues.push({ path: '$', message: 'type guard rejected the response' });
+    }
+  } else {
+    validator.check(data, '$', issues);
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(url, issues, data);
+  }
+  return data as T;
+}
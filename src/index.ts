@@ -6,6 +6,7 @@
  * - DOM manipulation helpers
  * - HTTP request wrappers with error handling
  * - Formatting utilities for strings, numbers, and dates
+ * - Library-wide logging configuration
  * 
  * @example
  * ```typescript
@@ -37,6 +38,11 @@ export * as HTTP from './http/index.js';
  */
 export * as Format from './format/index.js';
 
+/**
+ * Logging configuration shared by every module
+ */
+export { configure, type LibraryConfig, type Logger, type LogLevel } from './logger.js';
+
 // Named exports for convenience
 export { select, selectAll, create, append, remove, addClass, removeClass, toggleClass } from './dom/index.js';
 export { component } from './dom/component.js';
@@ -0,0 +1,75 @@
+/**
+ * Logging for AckerJS
+ * Routes diagnostics from every module to a configurable logger and level
+ */
+
+/**
+ * Minimum severity that is logged; 'silent' disables logging
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Logger receiving AckerJS diagnostics; `console` satisfies it
+ */
+export interface Logger {
+  debug(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+}
+
+/**
+ * Library-wide settings
+ */
+export interface LibraryConfig {
+  /** Logger used by every module (default: console) */
+  logger?: Logger;
+  /** Minimum level that is logged (default: 'warn') */
+  logLevel?: LogLevel;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+const settings: Required<LibraryConfig> = {
+  logger: console,
+  logLevel: 'warn',
+};
+
+/**
+ * Configure logging for all AckerJS modules
+ * @param config - Settings to apply; omitted keys keep their current value
+ * @example
+ * configure({
+ *   logLevel: 'error',
+ *   logger: { ...console, error: (message, ...details) => telemetry.capture(message, details) },
+ * });
+ */
+export function configure(config: LibraryConfig): void {
+  if (config.logger) {
+    settings.logger = config.logger;
+  }
+  if (config.logLevel) {
+    settings.logLevel = config.logLevel;
+  }
+}
+
+function write(level: Exclude<LogLevel, 'silent'>, message: string, details: unknown[]): void {
+  if (LEVELS[level] < LEVELS[settings.logLevel]) {
+    return;
+  }
+  try {
+    settings.logger[level](message, ...details);
+  } catch {
+    // A failing logger must not break the library
+  }
+}
+
+/**
+ * Logger used inside the library; filters by the configured level
+ */
+export const log: Logger = {
+  debug: (message, ...details) => write('debug', message, details),
+  info: (message, ...details) => write('info', message, details),
+  warn: (message, ...details) => write('warn', message, details),
+  error: (message, ...details) => write('error', message, details),
+};